@@ -1,96 +1,283 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useReducer } from 'react';
 import { GameCanvas } from './components/GameCanvas';
 import { StationInterface } from './components/StationInterface';
 import { RetroUI } from './components/RetroUI';
-import { GameState, PlayerState, MineralType } from './types';
-import { INITIAL_SHIP_CONFIG, STATION_POSITION } from './constants';
+import { SaveMenu } from './components/SaveMenu';
+import { SettingsMenu } from './components/SettingsMenu';
+import { PauseMenu } from './components/PauseMenu';
+import { GameState, GameOverReason, PlayerState, FieldState, MarketState, ContractBoard, MineralType, SaveGame, FlightReport, LossReport, RescueReport, Replay, World, AudioSettings } from './types';
+import { INITIAL_SHIP_CONFIG, INITIAL_HULL, STATIONS, LAUNCH_CLEARANCE } from './constants';
+import { findStation, extractField, extractContracts } from './sim/world';
+import { generateSeed, normalizeSeed } from './utils/random';
+import { createSave, writeSave, deleteSave, listSaves, SAVE_SLOTS } from './utils/save';
+import { exportReplay, importReplay } from './utils/replay';
+import { createMarket, advanceMarket } from './sim/market';
+import { createContractBoard, settleContracts, postOffers } from './sim/contracts';
+import { createUpgradeLevels } from './sim/upgrades';
+import { createLoadout } from './sim/loadout';
+import { rescueShip } from './sim/rescue';
+import { RescueBill } from './components/RescueBill';
+import { createGameFlow, gameFlowReducer, baseState, LOOP_STATES } from './utils/gameState';
+import { loadAudioSettings, saveAudioSettings } from './utils/audio';
+import { loadBindings } from './utils/input';
+
+// A fresh ship at home, ready to launch
+const createStartingPlayer = (): PlayerState => ({
+  credits: 0,
+  currentFuel: INITIAL_SHIP_CONFIG.maxFuel,
+  cargo: {
+    [MineralType.IRON]: 0,
+    [MineralType.SILICON]: 0,
+    [MineralType.GOLD]: 0,
+    [MineralType.KRONOS]: 0,
+  },
+  shipConfig: INITIAL_SHIP_CONFIG,
+  upgrades: createUpgradeLevels(),
+  loadout: createLoadout(),
+  modules: [],
+  insured: false,
+  hull: INITIAL_HULL,
+  maxHull: INITIAL_HULL,
+  position: { x: STATIONS[0].x, y: STATIONS[0].y + STATIONS[0].radius + LAUNCH_CLEARANCE },
+  velocity: { x: 0, y: 60 },
+  rotation: -Math.PI / 2,
+});
 
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(GameState.START);
+  const [flow, dispatch] = useReducer(gameFlowReducer, undefined, createGameFlow);
+  const gameState = flow.state;
+  const [seed, setSeed] = useState<string>(generateSeed);
+  const [field, setField] = useState<FieldState | null>(null); // Persistent belt, null until first dock
+  const [market, setMarket] = useState<MarketState>(createMarket);
+  const [stationId, setStationId] = useState<string>(STATIONS[0].id); // Last station docked at
+  const [contracts, setContracts] = useState<ContractBoard>(createContractBoard);
+  const [showSaves, setShowSaves] = useState(false);
+  const [gameOverReason, setGameOverReason] = useState<GameOverReason>('OUT_OF_FUEL');
+  const [hardcore, setHardcore] = useState(false); // One life: no rescue
+  const [rescue, setRescue] = useState<RescueReport | null>(null); // Null when the loss ended the campaign
+  const [lastFlight, setLastFlight] = useState<Replay | null>(null); // Recording of the latest flight
+  const [replay, setReplay] = useState<Replay | null>(null); // Recording being watched
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [launches, setLaunches] = useState(0); // Bumped whenever a new flight starts, so the canvas builds its world
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const worldRef = useRef<World | null>(null); // Flight in progress, for saving from the pause menu
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
   
-  const [playerState, setPlayerState] = useState<PlayerState>({
-    credits: 0,
-    currentFuel: INITIAL_SHIP_CONFIG.maxFuel,
-    cargo: {
-      [MineralType.IRON]: 0,
-      [MineralType.SILICON]: 0,
-      [MineralType.GOLD]: 0,
-      [MineralType.KRONOS]: 0,
-    },
-    shipConfig: INITIAL_SHIP_CONFIG,
-    position: { x: STATION_POSITION.x + 100, y: STATION_POSITION.y + 100 }, // Start just outside
-    velocity: { x: 0, y: 0 },
-    rotation: -Math.PI / 2,
-  });
-
-  const handleDock = (finalState: PlayerState) => {
-    setPlayerState({
-      ...finalState,
+  const [playerState, setPlayerState] = useState<PlayerState>(createStartingPlayer);
+
+  const handleDock = ({ player, field: finalField, contracts: flown, flightTime, station, replay: flight }: FlightReport) => {
+    const settled = settleContracts({ ...contracts, active: flown }, {
+      ...player,
+      velocity: { x: 0, y: 0 },
+      position: { x: station.x, y: station.y } // Snap to center
+    }, station);
+    const dockedState = settled.player;
+    const nextContracts = postOffers(settled.board, station, seed);
+    const nextMarket = advanceMarket(market, flightTime, seed);
+    setPlayerState(dockedState);
+    setField(finalField);
+    setMarket(nextMarket);
+    setStationId(station.id);
+    setContracts(nextContracts);
+    setLastFlight(flight);
+    writeSave('autosave', createSave(seed, dockedState, finalField, nextMarket, station.id, nextContracts, hardcore));
+    dispatch({ type: 'GO', to: GameState.DOCKED });
+  };
+
+  // Station saves resume docked; pause menu saves relaunch where the ship was
+  const handleLoad = (save: SaveGame) => {
+    setSeed(save.seed || generateSeed());
+    setField(save.field);
+    setMarket(save.market);
+    setStationId(save.stationId);
+    setContracts(save.contracts);
+    setHardcore(save.hardcore);
+    const station = findStation(save.stationId);
+    setPlayerState(save.inFlight ? save.player : {
+      ...save.player,
       velocity: { x: 0, y: 0 },
-      position: { x: STATION_POSITION.x, y: STATION_POSITION.y } // Snap to center
+      position: { x: station.x, y: station.y }
     });
-    setGameState(GameState.DOCKED);
+    setShowSaves(false);
+    if (save.inFlight) setLaunches(n => n + 1);
+    dispatch({ type: 'GO', to: save.inFlight ? GameState.PLAYING : GameState.DOCKED });
   };
 
   const handleLaunch = () => {
     // Reset position slightly outside to avoid instant redock
+    const station = findStation(stationId);
     setPlayerState(prev => ({
       ...prev,
-      position: { x: STATION_POSITION.x, y: STATION_POSITION.y + 220 },
-      velocity: { x: 0, y: 1 } // Little push out
+      position: { x: station.x, y: station.y + station.radius + LAUNCH_CLEARANCE },
+      velocity: { x: 0, y: 60 } // Little push out
     }));
-    setGameState(GameState.PLAYING);
+    setLaunches(n => n + 1);
+    dispatch({ type: 'GO', to: GameState.PLAYING });
+  };
+
+  // Everything a campaign carries between flights goes back to day one.
+  // The sector seed and the hardcore choice are the pilot's to keep.
+  const resetCampaign = () => {
+    setField(null);
+    setMarket(createMarket());
+    setStationId(STATIONS[0].id);
+    setContracts(createContractBoard());
+    setPlayerState(createStartingPlayer());
+    setRescue(null);
+    setLastFlight(null);
+    setLaunches(n => n + 1);
   };
 
   const handleStartGame = () => {
+    // An empty seed field still needs a reproducible sector
+    if (!seed) setSeed(generateSeed());
+    resetCampaign();
+
     // Attempt to go fullscreen
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen().catch(err => {
         console.warn("Error attempting to enable full-screen mode:", err);
       });
     }
-    setGameState(GameState.PLAYING);
+    dispatch({ type: 'GO', to: GameState.PLAYING });
   };
 
-  const handleGameOver = () => {
-    setGameState(GameState.GAMEOVER);
+  // Normally the ship is towed in and the campaign carries on from that station,
+  // which settles contracts and posts offers as a dock would. Hardcore campaigns
+  // end, and lose every save of this sector with them.
+  const handleGameOver = ({ reason, player, field: finalField, contracts: flown, flightTime, replay: flight }: LossReport) => {
+    setGameOverReason(reason);
+    setLastFlight(flight);
+    if (hardcore) {
+      setRescue(null);
+      setPlayerState(player);
+      const saves = listSaves();
+      SAVE_SLOTS.forEach(slot => {
+        const save = saves[slot];
+        if (save?.hardcore && save.seed === seed) deleteSave(slot);
+      });
+    } else {
+      const report = rescueShip(player, reason);
+      const settled = settleContracts({ ...contracts, active: flown }, report.player, report.station);
+      const nextContracts = postOffers(settled.board, report.station, seed);
+      const nextMarket = advanceMarket(market, flightTime, seed);
+      setRescue(report);
+      setPlayerState(settled.player);
+      setField(finalField);
+      setMarket(nextMarket);
+      setStationId(report.station.id);
+      setContracts(nextContracts);
+      // Saved straight away so reloading can't dodge the bill
+      writeSave('autosave', createSave(seed, settled.player, finalField, nextMarket, report.station.id, nextContracts, hardcore));
+    }
+    dispatch({ type: 'GO', to: GameState.GAMEOVER });
+  };
+
+  const handleWatchReplay = (recording: Replay) => {
+    setReplay(recording);
+    dispatch({ type: 'GO', to: GameState.REPLAY });
+  };
+
+  // Back to whichever screen the replay was opened from
+  const handleExitReplay = () => {
+    setReplay(null);
+    dispatch({ type: 'BACK' });
+  };
+
+  const handleTogglePause = () => dispatch(gameState === GameState.PAUSED ? { type: 'BACK' } : { type: 'PAUSE' });
+  const handleToggleMap = () => dispatch(gameState === GameState.MAP ? { type: 'BACK' } : { type: 'GO', to: GameState.MAP });
+
+  // Switching away mid-flight pauses, so the alien doesn't drain the tank meanwhile
+  useEffect(() => {
+    const pause = () => dispatch({ type: 'PAUSE' });
+    const handleVisibility = () => { if (document.hidden) pause(); };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', pause);
+    };
+  }, []);
+
+  const handleAudioChange = (settings: AudioSettings) => {
+    setAudioSettings(settings);
+    saveAudioSettings(settings);
+  };
+
+  const handleToggleMute = () => {
+    handleAudioChange({ ...audioSettings, master: { ...audioSettings.master, muted: !audioSettings.master.muted } });
+  };
+
+  // The flight loop reads the mute binding itself; everywhere else only its keys work
+  useEffect(() => {
+    if (LOOP_STATES.includes(gameState)) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing a seed or capturing a binding isn't a hotkey
+      if (e.defaultPrevented || e.repeat || e.target instanceof HTMLInputElement) return;
+      if (loadBindings().mute.some(b => b.device === 'KEY' && b.code === e.code)) handleToggleMute();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [gameState, audioSettings]);
+
+  // Mid-flight saves keep the ship where it is, with the belt and contracts as they stand
+  const currentSave = (): SaveGame | null => {
+    if (gameState === GameState.DOCKED) return createSave(seed, playerState, field, market, stationId, contracts, hardcore);
+    const world = worldRef.current;
+    if (gameState !== GameState.PAUSED || !world) return null;
+    return createSave(seed, world.ship, extractField(world), market, stationId, { ...contracts, active: extractContracts(world) }, hardcore, true);
+  };
+
+  const handleImportReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplayError(null);
+      handleWatchReplay(await importReplay(file));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
   };
 
   const handleRestart = () => {
-    setPlayerState({
-      credits: 0,
-      currentFuel: INITIAL_SHIP_CONFIG.maxFuel,
-      cargo: {
-        [MineralType.IRON]: 0,
-        [MineralType.SILICON]: 0,
-        [MineralType.GOLD]: 0,
-        [MineralType.KRONOS]: 0,
-      },
-      shipConfig: INITIAL_SHIP_CONFIG,
-      position: { x: STATION_POSITION.x, y: STATION_POSITION.y + 220 },
-      velocity: { x: 0, y: 1 },
-      rotation: -Math.PI / 2,
-    });
-    setGameState(GameState.PLAYING);
+    // A lost ship starts over with a fresh belt from the same sector seed
+    resetCampaign();
+    dispatch({ type: 'GO', to: GameState.PLAYING });
   };
 
+  // Settings opens over a screen that stays drawn underneath
+  const base = baseState(flow);
+  const showing = (state: GameState) => gameState === state || (gameState === GameState.SETTINGS && base === state);
+
   return (
     <div className="relative w-screen h-screen bg-black overflow-hidden">
       <RetroUI />
       
       {/* Game Layer */}
-      {(gameState === GameState.PLAYING || gameState === GameState.DOCKED) && (
+      {(base === GameState.PLAYING || base === GameState.DOCKED || replay) && (
         <GameCanvas 
           gameState={gameState}
           playerState={playerState} 
+          seed={seed}
+          field={field}
+          contracts={contracts.active}
+          launch={launches}
           onDock={handleDock}
           onGameOver={handleGameOver}
+          replay={replay}
+          onExitReplay={handleExitReplay}
+          onTogglePause={handleTogglePause}
+          onToggleMap={handleToggleMap}
+          worldRef={worldRef}
+          audioSettings={audioSettings}
+          onToggleMute={handleToggleMute}
         />
       )}
 
       {/* Start Screen */}
-      {gameState === GameState.START && (
+      {showing(GameState.START) && (
         <div className="absolute inset-0 flex items-center justify-center bg-black z-50">
           <div className="text-center space-y-6 p-10 border-4 border-green-500 rounded shadow-[0_0_30px_#00ff00]">
             <h1 className="text-6xl font-bold text-green-500 font-mono retro-glow tracking-tighter">
@@ -101,14 +288,66 @@ const App: React.FC = () => {
               Mine rare isotopes. Manage your fuel. Survive.
             </p>
             <div className="py-4">
-              <p className="text-sm text-green-700">CONTROLS: WASD + MOUSE</p>
+              <p className="text-sm text-green-700">CONTROLS: WASD + MOUSE // RIGHT CLICK GUNS // SPACE TORPEDO // M MAP // ESC PAUSE // N MUTE // GAMEPAD READY</p>
+            </div>
+            <div className="flex items-center justify-center gap-2 font-mono">
+              <label htmlFor="sector-seed" className="text-green-500">SECTOR SEED:</label>
+              <input
+                id="sector-seed"
+                value={seed}
+                onChange={e => setSeed(normalizeSeed(e.target.value))}
+                maxLength={16}
+                spellCheck={false}
+                className="bg-black border border-green-700 text-green-300 px-2 py-1 w-40 uppercase tracking-widest focus:outline-none focus:border-green-400"
+              />
+              <button
+                onClick={() => setSeed(generateSeed())}
+                className="border border-green-700 text-green-500 px-2 py-1 text-sm hover:bg-green-900"
+              >
+                REROLL
+              </button>
             </div>
+            <label className="flex items-center justify-center gap-2 font-mono text-green-500 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hardcore}
+                onChange={e => setHardcore(e.target.checked)}
+                className="accent-red-500"
+              />
+              HARDCORE <span className="text-green-800 text-sm">// ONE LIFE, NO RESCUE</span>
+            </label>
             <button 
               onClick={handleStartGame}
               className="px-8 py-3 bg-green-600 text-black font-bold text-2xl rounded hover:bg-green-400 transition-all hover:scale-105 shadow-[0_0_15px_#00ff00]"
             >
               INITIATE LAUNCH SEQUENCE
             </button>
+            <div>
+              <button
+                onClick={() => setShowSaves(true)}
+                className="text-green-600 hover:text-green-300 font-mono tracking-wider"
+              >
+                [ LOAD CAMPAIGN ]
+              </button>
+            </div>
+            <div>
+              <button
+                onClick={() => dispatch({ type: 'GO', to: GameState.SETTINGS })}
+                className="text-green-600 hover:text-green-300 font-mono tracking-wider"
+              >
+                [ SETTINGS ]
+              </button>
+            </div>
+            <div>
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                className="text-green-600 hover:text-green-300 font-mono tracking-wider"
+              >
+                [ WATCH REPLAY FILE ]
+              </button>
+              <input ref={replayInputRef} type="file" accept="application/json,.json" onChange={handleImportReplay} className="hidden" />
+              {replayError && <p className="text-red-500 text-sm font-mono mt-2">{replayError}</p>}
+            </div>
           </div>
         </div>
       )}
@@ -119,29 +358,77 @@ const App: React.FC = () => {
           <div className="text-center space-y-6 border border-red-500 p-12 rounded bg-black">
             <h1 className="text-6xl font-bold text-red-600 font-mono retro-glow">SIGNAL LOST</h1>
             <p className="text-xl text-red-400 font-mono">
-              Fuel reserves depleted. Life support failing.
-            </p>
-            <p className="text-lg text-yellow-500">
-              Final Wealth: {Math.floor(playerState.credits)} Credits
+              {gameOverReason === 'SHIP_DESTROYED'
+                ? 'Hull breach. Vessel lost in the belt.'
+                : 'Fuel reserves depleted. Life support failing.'}
             </p>
+            {rescue ? (
+              <RescueBill report={rescue} />
+            ) : (
+              <p className="text-lg text-yellow-500">
+                Final Wealth: {Math.floor(playerState.credits)} Credits
+              </p>
+            )}
+            <p className="text-sm text-red-800 font-mono">SECTOR {seed}{hardcore && ' // HARDCORE'}</p>
             <button 
-              onClick={handleRestart}
+              onClick={rescue ? () => dispatch({ type: 'GO', to: GameState.DOCKED }) : handleRestart}
               className="px-8 py-3 border border-red-500 text-red-500 font-bold text-xl rounded hover:bg-red-600 hover:text-black transition-all"
             >
-              RESCUE & RESTART
+              {rescue ? 'ACCEPT TOW' : 'START OVER'}
             </button>
+            {lastFlight && (
+              <div className="flex justify-center gap-6 font-mono">
+                <button onClick={() => handleWatchReplay(lastFlight)} className="text-red-700 hover:text-red-400">[ WATCH REPLAY ]</button>
+                <button onClick={() => exportReplay(lastFlight)} className="text-red-700 hover:text-red-400">[ EXPORT REPLAY ]</button>
+              </div>
+            )}
           </div>
         </div>
       )}
 
       {/* Docking Interface */}
-      {gameState === GameState.DOCKED && (
+      {showing(GameState.DOCKED) && (
         <StationInterface 
+          station={findStation(stationId)}
           playerState={playerState} 
           setPlayerState={setPlayerState} 
+          market={market}
+          setMarket={setMarket}
+          contracts={contracts}
+          setContracts={setContracts}
           onLaunch={handleLaunch} 
+          onOpenSaves={() => setShowSaves(true)}
+          onOpenSettings={() => dispatch({ type: 'GO', to: GameState.SETTINGS })}
+          onExportReplay={lastFlight ? () => exportReplay(lastFlight) : null}
+          hardcore={hardcore}
+        />
+      )}
+
+      {/* Pause Menu */}
+      {gameState === GameState.PAUSED && (
+        <PauseMenu
+          seed={seed}
+          hardcore={hardcore}
+          onResume={() => dispatch({ type: 'BACK' })}
+          onSettings={() => dispatch({ type: 'GO', to: GameState.SETTINGS })}
+          onSave={() => setShowSaves(true)}
+          onQuit={() => dispatch({ type: 'GO', to: GameState.START })}
         />
       )}
+
+      {/* Save Slots */}
+      {showSaves && (gameState === GameState.START || gameState === GameState.DOCKED || gameState === GameState.PAUSED) && (
+        <SaveMenu
+          current={currentSave()}
+          onLoad={handleLoad}
+          onClose={() => setShowSaves(false)}
+        />
+      )}
+
+      {/* Audio mixer, key and gamepad bindings */}
+      {gameState === GameState.SETTINGS && (
+        <SettingsMenu audio={audioSettings} onAudioChange={handleAudioChange} onClose={() => dispatch({ type: 'BACK' })} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Bindings, InputAction, InputBinding } from '../types';
+import { INPUT_ACTIONS, loadBindings, saveBindings, defaultBindings, describeBinding, sameBinding, captureBinding } from '../utils/input';
+
+interface ControlsMenuProps {
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  thrust: 'THRUST',
+  rotateLeft: 'ROTATE LEFT',
+  rotateRight: 'ROTATE RIGHT',
+  dock: 'DOCKING BRAKE',
+  fire: 'MINING LASER',
+  shoot: 'CANNON',
+  shootSecondary: 'TORPEDO',
+  map: 'SECTOR MAP',
+  pause: 'PAUSE',
+  mute: 'MUTE AUDIO',
+};
+
+export const ControlsMenu: React.FC<ControlsMenuProps> = ({ onClose }) => {
+  const [bindings, setBindings] = useState<Bindings>(loadBindings);
+  const [capturing, setCapturing] = useState<InputAction | null>(null);
+
+  const update = (next: Bindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  // An input can only drive one action, so binding it here takes it off any other
+  const addBinding = (action: InputAction, binding: InputBinding) => {
+    const next = {} as Bindings;
+    INPUT_ACTIONS.forEach(a => { next[a] = bindings[a].filter(b => !sameBinding(b, binding)); });
+    next[action] = [...next[action], binding];
+    update(next);
+  };
+
+  const removeBinding = (action: InputAction, index: number) => {
+    update({ ...bindings, [action]: bindings[action].filter((_, i) => i !== index) });
+  };
+
+  useEffect(() => {
+    if (!capturing) return;
+    return captureBinding(binding => {
+      if (binding) addBinding(capturing, binding);
+      setCapturing(null);
+    });
+  }, [capturing]);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 text-green-500 font-mono p-4">
+      <div className="w-full max-w-2xl border-2 border-green-500 p-6 bg-black shadow-[0_0_20px_rgba(0,255,0,0.3)] rounded-lg">
+        <div className="flex justify-between items-end border-b-2 border-green-800 pb-4 mb-6">
+          <h1 className="text-3xl font-bold retro-glow">FLIGHT CONTROLS</h1>
+          <button onClick={onClose} className="text-green-700 hover:text-green-400">[ CLOSE ]</button>
+        </div>
+
+        <div className="space-y-2">
+          {INPUT_ACTIONS.map(action => (
+            <div key={action} className="flex justify-between items-center gap-4 border border-green-900 p-2 rounded bg-green-900/10">
+              <h3 className="w-40 shrink-0">{ACTION_LABELS[action]}</h3>
+              <div className="flex flex-wrap gap-2 flex-1">
+                {bindings[action].length === 0 && <span className="text-xs text-gray-600">-- UNBOUND --</span>}
+                {bindings[action].map((binding, index) => (
+                  <span key={index} className="text-xs border border-green-800 px-2 py-1">
+                    {describeBinding(binding)}
+                    <button onClick={() => removeBinding(action, index)} className="ml-2 text-red-700 hover:text-red-400">x</button>
+                  </span>
+                ))}
+              </div>
+              <button
+                onClick={() => setCapturing(action)}
+                disabled={capturing !== null}
+                className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-xs transition-all disabled:opacity-30"
+              >
+                {capturing === action ? 'PRESS INPUT...' : '+ BIND'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center mt-6 border-t-2 border-green-800 pt-4">
+          <p className="text-xs text-gray-400">
+            {capturing ? 'PRESS A KEY, MOUSE BUTTON, PAD BUTTON OR STICK // ESC TO CANCEL' : 'THE RIGHT STICK AIMS THE LASER'}
+          </p>
+          <button
+            onClick={() => update(defaultBindings())}
+            className="border border-amber-700 text-amber-500 hover:bg-amber-700 hover:text-black px-4 py-2 text-sm transition-all"
+          >
+            RESET DEFAULTS
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { PlayerState, ShipConfig, ModuleId } from '../types';
+import { MODULES, SHIP_SLOTS } from '../constants';
+import { findModule, previewFit, resaleValue, buyModule, sellModule, fitModule, unfitModule } from '../sim/loadout';
+
+interface FittingPanelProps {
+  playerState: PlayerState;
+  setPlayerState: React.Dispatch<React.SetStateAction<PlayerState>>;
+}
+
+const STAT_LABELS: Record<keyof ShipConfig, string> = {
+  maxFuel: 'FUEL',
+  fuelConsumptionRate: 'IDLE BURN',
+  thrustConsumptionRate: 'THRUST BURN',
+  maxCargo: 'CARGO',
+  acceleration: 'ACCEL',
+  maxSpeed: 'SPEED',
+  rotationSpeed: 'TURN',
+  miningPower: 'LASER',
+  miningRange: 'REACH',
+  beamWidth: 'BEAM WIDTH',
+  radarRange: 'RADAR',
+  shieldCapacity: 'SHIELD',
+  shieldRegen: 'SHIELD REGEN',
+  weaponDamage: 'GUN DAMAGE',
+  heatCapacity: 'HEAT CAP',
+  coolingRate: 'COOLING',
+};
+const LOWER_IS_BETTER: (keyof ShipConfig)[] = ['fuelConsumptionRate', 'thrustConsumptionRate'];
+
+const formatStat = (value: number) => Number.isInteger(value) ? `${value}` : value.toFixed(1);
+
+// Every stat a change would move, coloured by whether it helps or hurts
+const TradeOffs: React.FC<{ before: ShipConfig; after: ShipConfig }> = ({ before, after }) => {
+  const changed = (Object.keys(STAT_LABELS) as (keyof ShipConfig)[]).filter(stat => Math.abs(after[stat] - before[stat]) > 0.05);
+  if (changed.length === 0) return <p className="text-xs text-gray-500">NO CHANGE</p>;
+  return (
+    <p className="text-xs">
+      {changed.map(stat => {
+        const better = (after[stat] > before[stat]) !== LOWER_IS_BETTER.includes(stat);
+        return (
+          <span key={stat} className={`mr-3 ${better ? 'text-green-400' : 'text-red-500'}`}>
+            {STAT_LABELS[stat]} {formatStat(before[stat])} &gt; {formatStat(after[stat])}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+// Slots on the left, spare modules and the shipyard catalogue on the right.
+// Picking a slot filters the inventory and catalogue to what fits it.
+export const FittingPanel: React.FC<FittingPanelProps> = ({ playerState, setPlayerState }) => {
+  const [selectedSlot, setSelectedSlot] = useState(0);
+  const kind = SHIP_SLOTS[selectedSlot];
+  const fits = (id: ModuleId) => findModule(id).slot === kind;
+
+  return (
+    <div className="mt-8 border border-green-900 p-4 rounded bg-green-900/10 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+      <div>
+        <h2 className="text-xl mb-3 border-b border-green-800 inline-block">FITTING BAY</h2>
+        <div className="space-y-2">
+          {SHIP_SLOTS.map((slotKind, slot) => {
+            const id = playerState.loadout[slot];
+            const def = id ? findModule(id) : null;
+            return (
+              <div
+                key={slot}
+                onClick={() => setSelectedSlot(slot)}
+                className={`flex justify-between items-center gap-2 p-2 border cursor-pointer ${slot === selectedSlot ? 'border-green-400' : 'border-green-900'}`}
+              >
+                <div>
+                  <p className="text-xs text-green-700 tracking-widest">{slotKind}</p>
+                  <p>{def ? def.name : '-- EMPTY --'}</p>
+                  {def && <p className="text-xs text-gray-400">{def.description} // MASS {def.mass}</p>}
+                </div>
+                {def && slotKind !== 'HARDPOINT' && (
+                  <button
+                    onClick={e => { e.stopPropagation(); setPlayerState(prev => unfitModule(prev, slot)); }}
+                    className="text-xs text-amber-600 hover:text-amber-400"
+                  >
+                    UNFIT
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl mb-3 border-b border-green-800 inline-block">MODULES // {kind}</h2>
+        <div className="space-y-3">
+          <p className="text-xs text-green-700 tracking-widest">IN STORAGE</p>
+          {!playerState.modules.some(fits) && <p className="text-gray-500">-- NOTHING FOR THIS SLOT --</p>}
+          {playerState.modules.map((id, index) => fits(id) && (
+            <div key={`${id}-${index}`} className="flex justify-between items-center gap-2">
+              <div>
+                <p>{findModule(id).name}</p>
+                <TradeOffs before={playerState.shipConfig} after={previewFit(playerState, selectedSlot, id)} />
+              </div>
+              <div className="flex flex-col gap-1 items-end">
+                <button
+                  onClick={() => setPlayerState(prev => fitModule(prev, selectedSlot, index))}
+                  className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-xs transition-all"
+                >
+                  FIT
+                </button>
+                <button
+                  onClick={() => setPlayerState(prev => sellModule(prev, index))}
+                  className="text-xs text-amber-600 hover:text-amber-400"
+                >
+                  SELL (+{resaleValue(id)}cr)
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <p className="text-xs text-green-700 tracking-widest pt-2">CATALOGUE</p>
+          {MODULES.filter(def => def.slot === kind).map(def => (
+            <div key={def.id} className="flex justify-between items-center gap-2">
+              <div>
+                <p>{def.name} <span className="text-xs text-gray-500">MASS {def.mass}</span></p>
+                <p className="text-xs text-gray-400">{def.description}</p>
+                <TradeOffs before={playerState.shipConfig} after={previewFit(playerState, selectedSlot, def.id)} />
+              </div>
+              <button
+                onClick={() => setPlayerState(prev => buyModule(prev, def.id))}
+                disabled={playerState.credits < def.price}
+                className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-xs transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
+              >
+                BUY ({def.price}cr)
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
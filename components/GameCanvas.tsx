@@ -1,44 +1,210 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { GameState, PlayerState, Asteroid, Point, MineralType, Particle, Loot, Alien } from '../types';
+import { GameState, GameOverReason, PlayerState, FieldState, Contract, FlightReport, LossReport, MineralType, Particle, World, GameEvent, SimInput, Asteroid, Point, InputAction, Replay, AudioSettings, MusicMood } from '../types';
 import { 
-  CANVAS_WIDTH, 
-  CANVAS_HEIGHT, 
-  STATION_POSITION, 
-  STATION_RADIUS, 
-  DOCKING_RANGE, 
-  ASTEROID_SPAWN_RADIUS,
+  SIM_DT,
+  MAX_FRAME_TIME,
+  STATIONS,
+  DOCKING_MARGIN,
+  DOCKING_SPEED,
   WORLD_BOUNDS,
   MINERAL_COLORS,
-  LOOT_COLLECTION_RANGE,
-  LOOT_DESPAWN_TIME,
-  ALIEN_CONFIG
+  CARGO_POD,
+  CONTRACTS,
+  ALIEN_CONFIG,
+  ENEMIES,
+  WEAPONS,
+  INPUT,
+  MUSIC
 } from '../constants';
 import { SoundManager } from '../utils/audio';
+import { LOOP_STATES } from '../utils/gameState';
+import { InputManager, loadBindings, describeBinding, isTouchDevice } from '../utils/input';
+import { TouchControls } from './TouchControls';
+import { ReplayControls } from './ReplayControls';
+import { createWorld, extractField, extractContracts, cargoTotal } from '../sim/world';
+import { describeContract, contractTarget } from '../sim/contracts';
+import { step } from '../sim/step';
+import { startRecording, recordTick, finishRecording, quantizeInput, expandInputs, createReplayWorld, advanceReplay, endingOf } from '../sim/replay';
+import { createRng, Rng } from '../utils/random';
+
+// Where an entity was before the latest tick, for interpolated rendering
+interface Pose {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+const SHAKE_DECAY = 0.002; // Fraction of screen shake left after one second
+
+// Only asteroids within `range` of the ship can be on screen, so only those are recorded
+const snapshotPoses = (world: World, range: number): Map<string, Pose> => {
+  const poses = new Map<string, Pose>();
+  const { position } = world.ship;
+  poses.set('ship', { x: position.x, y: position.y, rotation: world.ship.rotation });
+  world.asteroidIndex.queryRadius(position.x, position.y, range)
+    .forEach(a => poses.set(a.id, { x: a.x, y: a.y, rotation: a.rotation }));
+  world.loot.forEach(l => poses.set(l.id, { x: l.x, y: l.y, rotation: 0 }));
+  world.pods.forEach(p => poses.set(p.id, { x: p.x, y: p.y, rotation: 0 }));
+  world.projectiles.forEach(p => poses.set(p.id, { x: p.x, y: p.y, rotation: 0 }));
+  world.aliens.forEach(a => poses.set(a.id, { x: a.x, y: a.y, rotation: 0 }));
+  return poses;
+};
+
+// A stick only gives a direction, so aim at the nearest rock in a cone around
+// it, or at the edge of laser reach when there's nothing there
+const stickAim = (world: World, direction: Point): Point => {
+  const { position, shipConfig } = world.ship;
+  const heading = Math.atan2(direction.y, direction.x);
+  let best: Asteroid | null = null;
+  let bestDist = Infinity;
+  for (const ast of world.asteroidIndex.queryRadius(position.x, position.y, shipConfig.miningRange)) {
+    const dx = ast.x - position.x;
+    const dy = ast.y - position.y;
+    const offset = Math.atan2(dy, dx) - heading;
+    const dist = dx*dx + dy*dy;
+    if (Math.abs(Math.atan2(Math.sin(offset), Math.cos(offset))) < INPUT.AIM_CONE && dist <= shipConfig.miningRange**2 && dist < bestDist) {
+      best = ast;
+      bestDist = dist;
+    }
+  }
+  if (best) return { x: best.x, y: best.y };
+  return { x: position.x + direction.x * shipConfig.miningRange, y: position.y + direction.y * shipConfig.miningRange };
+};
+
+// Whole-sector overview: the belt, stations, objectives and anything on radar
+const drawSectorMap = (ctx: CanvasRenderingContext2D, world: World, width: number, height: number, closeHint: string) => {
+  const ship = world.ship;
+  const size = Math.min(width, height) - 120;
+  const left = (width - size) / 2;
+  const top = (height - size) / 2;
+  const scale = size / (WORLD_BOUNDS * 2);
+  const toMap = (x: number, y: number) => ({ x: left + (x + WORLD_BOUNDS) * scale, y: top + (y + WORLD_BOUNDS) * scale });
+
+  ctx.fillStyle = 'rgba(0, 8, 0, 0.9)';
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = '#00ff00';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(left, top, size, size);
+
+  world.asteroids.forEach(ast => {
+    const p = toMap(ast.x, ast.y);
+    ctx.fillStyle = MINERAL_COLORS[ast.type];
+    ctx.fillRect(p.x - 1, p.y - 1, 2, 2);
+  });
+
+  // Radar coverage, and the contacts inside it
+  const shipPoint = toMap(ship.position.x, ship.position.y);
+  ctx.strokeStyle = '#004400';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(shipPoint.x, shipPoint.y, ship.shipConfig.radarRange * scale, 0, Math.PI * 2);
+  ctx.stroke();
+  world.aliens.forEach(alien => {
+    if ((alien.x - ship.position.x)**2 + (alien.y - ship.position.y)**2 > ship.shipConfig.radarRange**2) return;
+    const p = toMap(alien.x, alien.y);
+    ctx.fillStyle = ENEMIES[alien.kind].colorLights;
+    ctx.fillRect(p.x - 2, p.y - 2, 4, 4);
+  });
+  world.pods.forEach(pod => {
+    const p = toMap(pod.x, pod.y);
+    ctx.strokeStyle = '#fb923c';
+    ctx.strokeRect(p.x - 3, p.y - 3, 6, 6);
+  });
+  world.contracts.forEach(contract => {
+    const target = contract.status === 'ACTIVE' ? contractTarget(contract) : null;
+    if (!target) return;
+    const p = toMap(target.x, target.y);
+    ctx.strokeStyle = '#ffffff';
+    ctx.strokeRect(p.x - 4, p.y - 4, 8, 8);
+  });
+
+  ctx.font = '12px monospace';
+  ctx.textAlign = 'center';
+  STATIONS.forEach(station => {
+    const p = toMap(station.x, station.y);
+    ctx.fillStyle = station.color;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillText(station.name, p.x, p.y - 10);
+  });
+
+  // The ship, pointing where it's headed
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(shipPoint.x, shipPoint.y);
+  ctx.lineTo(shipPoint.x + Math.cos(ship.rotation) * 12, shipPoint.y + Math.sin(ship.rotation) * 12);
+  ctx.stroke();
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(shipPoint.x - 2, shipPoint.y - 2, 5, 5);
+
+  ctx.fillStyle = '#00ff00';
+  ctx.font = '16px monospace';
+  ctx.fillText(`SECTOR MAP // ${world.seed}`, width / 2, top - 16);
+  ctx.fillStyle = '#006600';
+  ctx.font = '12px monospace';
+  ctx.fillText(`${closeHint} TO CLOSE`, width / 2, top + size + 24);
+};
+
+// Whatever is most pressing sets the score
+const musicMood = (world: World): MusicMood => {
+  if (world.aliens.length > 0) return 'ALIEN';
+  if (world.ship.currentFuel / world.ship.shipConfig.maxFuel < MUSIC.LOW_FUEL) return 'LOW_FUEL';
+  if (world.beam) return 'MINING';
+  return 'CALM';
+};
 
 interface GameCanvasProps {
   gameState: GameState;
-  onDock: (finalPlayerState: PlayerState) => void;
-  onGameOver: () => void;
+  onDock: (report: FlightReport) => void;
+  onGameOver: (report: LossReport) => void;
   playerState: PlayerState; // Initial state when launching
+  seed: string; // Sector seed for the belt and every gameplay roll
+  field: FieldState | null; // Belt to continue; null generates one from the seed
+  contracts: Contract[]; // Active contracts taken into this flight
+  launch: number; // Changes once per new flight; the four above are only read then
+  replay: Replay | null; // Recording to play back instead of flying; overrides the four above
+  onExitReplay: () => void;
+  onTogglePause: () => void;
+  onToggleMap: () => void;
+  worldRef: React.MutableRefObject<World | null>; // The flight in progress, shared so it can be saved from the pause menu
+  audioSettings: AudioSettings;
+  onToggleMute: () => void;
+}
+
+
+// Playback controls, read by the loop each frame. `seek` is a tick to jump to.
+interface Playback {
+  inputs: SimInput[];
+  paused: boolean;
+  speed: number;
+  seek: number | null;
 }
 
-export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGameOver, playerState: initialPlayerState }) => {
+export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGameOver, playerState: initialPlayerState, seed, field, contracts, launch, replay, onExitReplay, onTogglePause, onToggleMap, worldRef, audioSettings, onToggleMute }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const soundManagerRef = useRef<SoundManager | null>(null);
   
   // Use state for window dimensions to handle resizing
   const [dimensions, setDimensions] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [showTouch, setShowTouch] = useState(isTouchDevice);
+  const [playbackView, setPlaybackView] = useState({ tick: 0, paused: false, speed: 1 });
 
   // Mutable game state refs to avoid re-renders during game loop
-  const shipRef = useRef(initialPlayerState);
-  const asteroidsRef = useRef<Asteroid[]>([]);
-  const alienRef = useRef<Alien | null>(null);
-  const keysRef = useRef<{ [key: string]: boolean }>({});
-  const mouseRef = useRef<{ x: number, y: number, isDown: boolean }>({ x: 0, y: 0, isDown: false });
+  const inputRef = useRef<InputManager | null>(null);
+  const audibleRef = useRef(false); // Keeps input activity from waking the audio while paused
+  const audioSettingsRef = useRef(audioSettings); // For a SoundManager created mid-flight
+  const recordingRef = useRef<Replay | null>(null); // The live flight, tick by tick
+  const playbackRef = useRef<Playback>({ inputs: [], paused: false, speed: 1, seek: null });
   const particlesRef = useRef<Particle[]>([]);
-  const lootRef = useRef<Loot[]>([]);
+  const prevPosesRef = useRef<Map<string, Pose>>(new Map());
   const shakeRef = useRef(0); // Screen shake intensity
+  const fxRandomRef = useRef<Rng>(Math.random); // Cosmetic jitter, seeded per run
+  // App hands over fresh callbacks every render; the loop reads the latest without restarting
+  const callbacksRef = useRef({ onDock, onGameOver, onTogglePause, onToggleMap, onToggleMute });
+  callbacksRef.current = { onDock, onGameOver, onTogglePause, onToggleMap, onToggleMute };
   
   // Camera position (centered on ship usually, but smoothed)
   const cameraRef = useRef({ x: 0, y: 0 });
@@ -57,25 +223,49 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // --- Initialization ---
+  // --- Audio: one context for as long as the canvas is up ---
   useEffect(() => {
-    shipRef.current = initialPlayerState;
-    lootRef.current = [];
+    const sound = new SoundManager();
+    sound.applySettings(audioSettingsRef.current);
+    soundManagerRef.current = sound;
+    return () => sound.dispose();
+  }, []);
+
+  const sectorSeed = replay ? replay.seed : seed;
+
+  // --- Initialization: a fresh world for each launch or replay, not for every
+  // purchase made while docked ---
+  useEffect(() => {
+    worldRef.current = replay ? createReplayWorld(replay) : createWorld(initialPlayerState, seed, field, contracts);
+    recordingRef.current = replay ? null : startRecording(seed, initialPlayerState, field, contracts);
+    playbackRef.current = { inputs: replay ? expandInputs(replay) : [], paused: false, speed: 1, seek: null };
+    setPlaybackView({ tick: 0, paused: false, speed: 1 });
+    prevPosesRef.current = snapshotPoses(worldRef.current, Math.max(window.innerWidth, window.innerHeight));
+    fxRandomRef.current = createRng(sectorSeed, 'fx');
     particlesRef.current = [];
-    alienRef.current = null;
     shakeRef.current = 0;
-    
-    // Init Audio
-    soundManagerRef.current = new SoundManager();
-    
+
+    // Cleanup audio
+    return () => {
+      soundManagerRef.current?.stopThrust();
+      soundManagerRef.current?.stopLaser();
+      soundManagerRef.current?.stopEnemyVoices();
+    };
+  }, [launch, replay]);
+
+  // --- Backdrop: fixed for the sector ---
+  useEffect(() => {
+    // Backdrop gets its own stream so it never shifts gameplay rolls
+    const backdrop = createRng(sectorSeed, 'backdrop');
+
     // Generate Stars
     const stars = [];
     for(let i=0; i<800; i++) {
       stars.push({
-        x: (Math.random() - 0.5) * WORLD_BOUNDS * 1.5, // Widen the field
-        y: (Math.random() - 0.5) * WORLD_BOUNDS * 1.5,
-        size: Math.random() * 2,
-        depth: 0.1 + Math.random() * 0.9 // Varying depth for parallax
+        x: (backdrop() - 0.5) * WORLD_BOUNDS * 1.5, // Widen the field
+        y: (backdrop() - 0.5) * WORLD_BOUNDS * 1.5,
+        size: backdrop() * 2,
+        depth: 0.1 + backdrop() * 0.9 // Varying depth for parallax
       });
     }
     starsRef.current = stars;
@@ -83,11 +273,11 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
     // Generate Nebulas (Faint colored clouds)
     const nebulas = [];
     for (let i = 0; i < 15; i++) {
-        const colorBase = Math.random() > 0.5 ? '76, 29, 149' : '13, 148, 136'; // Violet or Teal
+        const colorBase = backdrop() > 0.5 ? '76, 29, 149' : '13, 148, 136'; // Violet or Teal
         nebulas.push({
-            x: (Math.random() - 0.5) * WORLD_BOUNDS * 1.2,
-            y: (Math.random() - 0.5) * WORLD_BOUNDS * 1.2,
-            size: 600 + Math.random() * 800,
+            x: (backdrop() - 0.5) * WORLD_BOUNDS * 1.2,
+            y: (backdrop() - 0.5) * WORLD_BOUNDS * 1.2,
+            size: 600 + backdrop() * 800,
             color: `rgba(${colorBase}, 0.08)`,
             depth: 0.05 // Very distant
         });
@@ -98,525 +288,582 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
     const galaxies = [];
     for (let i = 0; i < 8; i++) {
         galaxies.push({
-            x: (Math.random() - 0.5) * WORLD_BOUNDS * 1.2,
-            y: (Math.random() - 0.5) * WORLD_BOUNDS * 1.2,
-            size: 150 + Math.random() * 200,
-            rotation: Math.random() * Math.PI * 2,
-            color: Math.random() > 0.5 ? '#8b5cf6' : '#3b82f6', // Violet or Blue
+            x: (backdrop() - 0.5) * WORLD_BOUNDS * 1.2,
+            y: (backdrop() - 0.5) * WORLD_BOUNDS * 1.2,
+            size: 150 + backdrop() * 200,
+            rotation: backdrop() * Math.PI * 2,
+            color: backdrop() > 0.5 ? '#8b5cf6' : '#3b82f6', // Violet or Blue
             depth: 0.02 // Extremely distant
         });
     }
     galaxiesRef.current = galaxies;
+  }, [sectorSeed]);
 
-    // Generate Asteroids
-    const asteroids: Asteroid[] = [];
-    const count = 150;
-    for(let i=0; i<count; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = ASTEROID_SPAWN_RADIUS + Math.random() * (WORLD_BOUNDS - ASTEROID_SPAWN_RADIUS);
-      const x = Math.cos(angle) * dist;
-      const y = Math.sin(angle) * dist;
-      
-      // Determine type based on distance rarity
-      let type = MineralType.IRON;
-      const rand = Math.random();
-      if (dist > 3000 && rand > 0.8) type = MineralType.KRONOS;
-      else if (dist > 2000 && rand > 0.7) type = MineralType.GOLD;
-      else if (dist > 1000 && rand > 0.6) type = MineralType.SILICON;
-
-      // Generate jagged vertices
-      const radius = 20 + Math.random() * 40;
-      const vertices: Point[] = [];
-      const numVerts = 6 + Math.floor(Math.random() * 6);
-      for (let v = 0; v < numVerts; v++) {
-          const vAngle = (v / numVerts) * Math.PI * 2;
-          const rOffset = radius * (0.8 + Math.random() * 0.4);
-          vertices.push({
-              x: Math.cos(vAngle) * rOffset,
-              y: Math.sin(vAngle) * rOffset
-          });
-      }
 
-      asteroids.push({
-        id: `ast-${i}`,
-        x, y,
-        vx: (Math.random() - 0.5) * 0.5,
-        vy: (Math.random() - 0.5) * 0.5,
-        radius,
-        vertices,
-        type,
-        health: 100,
-        maxHealth: 100,
-        rotation: Math.random() * Math.PI * 2,
-        rotationSpeed: (Math.random() - 0.5) * 0.02,
-        isHeating: false
-      });
-    }
-    asteroidsRef.current = asteroids;
-
-    // Cleanup audio
-    return () => {
-      soundManagerRef.current?.stopThrust();
-      soundManagerRef.current?.stopLaser();
-      soundManagerRef.current?.stopAlienHum();
-    };
-  }, [initialPlayerState]);
+  useEffect(() => {
+    audioSettingsRef.current = audioSettings;
+    soundManagerRef.current?.applySettings(audioSettings);
+  }, [audioSettings]);
 
+  // --- Audio follows the sim, frozen whenever it is. The station only has music. ---
+  // Settings keeps the music playing so the mixer sliders can be heard.
+  useEffect(() => {
+    const sound = soundManagerRef.current;
+    audibleRef.current = gameState === GameState.PLAYING || gameState === GameState.MAP || gameState === GameState.REPLAY
+      || gameState === GameState.DOCKED || gameState === GameState.SETTINGS;
+    if (audibleRef.current) sound?.resume();
+    else sound?.suspend();
+    // Engine and beam loops restart with the next flight frame; enemy voices only start on
+    // spawn, so over a paused flight they are left to hum under the settings
+    if (gameState === GameState.DOCKED || gameState === GameState.SETTINGS) {
+      sound?.stopThrust();
+      sound?.stopLaser();
+    }
+    if (gameState === GameState.DOCKED) {
+      sound?.stopEnemyVoices();
+      sound?.setMusicMood('DOCKED');
+    }
+  }, [gameState]);
 
   // --- Input Listeners ---
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => { 
-      keysRef.current[e.code] = true; 
-      // Resume audio context on first interaction if needed
-      soundManagerRef.current?.resume();
+    const input = new InputManager(loadBindings());
+    // Resume audio context on first interaction if needed
+    input.onActivity = () => { if (audibleRef.current) soundManagerRef.current?.resume(); };
+    input.attach();
+    inputRef.current = input;
+    return () => input.detach();
+  }, []);
+
+  // Touch: hold a finger on a rock to mine it, or on an enemy to open fire.
+  // Not passive, so the browser doesn't scroll, zoom or emulate a click.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let aimTouch: number | null = null;
+    let held: InputAction | null = null;
+
+    const release = () => {
+      if (held) inputRef.current?.setVirtual(held, 0);
+      held = null;
+      aimTouch = null;
     };
-    const handleKeyUp = (e: KeyboardEvent) => { keysRef.current[e.code] = false; };
-    const handleMouseMove = (e: MouseEvent) => {
-      if(!canvasRef.current) return;
-      const rect = canvasRef.current.getBoundingClientRect();
-      mouseRef.current.x = e.clientX - rect.left;
-      mouseRef.current.y = e.clientY - rect.top;
+    const handleTouchStart = (e: TouchEvent) => {
+      e.preventDefault();
+      setShowTouch(true);
+      const touch = e.changedTouches[0];
+      const world = worldRef.current;
+      const input = inputRef.current;
+      if (aimTouch !== null || !touch || !world || !input) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const x = touch.clientX - rect.left + cameraRef.current.x;
+      const y = touch.clientY - rect.top + cameraRef.current.y;
+      const onEnemy = world.aliens.some(a => (a.x - x)**2 + (a.y - y)**2 < (ENEMIES[a.kind].radius + INPUT.TOUCH_TARGET_SLOP)**2);
+      aimTouch = touch.identifier;
+      held = onEnemy ? 'shoot' : 'fire';
+      input.aimAt(touch.clientX, touch.clientY);
+      input.setVirtual(held, 1);
     };
-    const handleMouseDown = () => { 
-      mouseRef.current.isDown = true;
-      soundManagerRef.current?.resume();
+    const handleTouchMove = (e: TouchEvent) => {
+      e.preventDefault();
+      const touch = Array.from(e.changedTouches).find(t => t.identifier === aimTouch);
+      if (touch) inputRef.current?.aimAt(touch.clientX, touch.clientY);
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (Array.from(e.changedTouches).some(t => t.identifier === aimTouch)) release();
     };
-    const handleMouseUp = () => { mouseRef.current.isDown = false; };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    // Mouse events need to be attached to window or specific element depending on focus. 
-    // For full screen games, window is safer for drag.
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mousedown', handleMouseDown);
-    window.addEventListener('mouseup', handleMouseUp);
 
+    canvas.addEventListener('touchstart', handleTouchStart, { passive: false });
+    canvas.addEventListener('touchmove', handleTouchMove, { passive: false });
+    canvas.addEventListener('touchend', handleTouchEnd);
+    canvas.addEventListener('touchcancel', handleTouchEnd);
     return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mousedown', handleMouseDown);
-      window.removeEventListener('mouseup', handleMouseUp);
+      canvas.removeEventListener('touchstart', handleTouchStart);
+      canvas.removeEventListener('touchmove', handleTouchMove);
+      canvas.removeEventListener('touchend', handleTouchEnd);
+      canvas.removeEventListener('touchcancel', handleTouchEnd);
+      release();
     };
   }, []);
 
 
   // --- Game Loop ---
   useEffect(() => {
-    if (gameState !== GameState.PLAYING) return;
+    if (!LOOP_STATES.includes(gameState)) return;
 
     let animationFrameId: number;
     const ctx = canvasRef.current?.getContext('2d');
 
-    const loop = () => {
-      if (!ctx || !canvasRef.current) return;
-      const ship = shipRef.current;
-      const { width, height } = canvasRef.current;
-
-      // 1. Physics & Logic
-      
-      // Shake Decay
-      if (shakeRef.current > 0) {
-        shakeRef.current *= 0.9;
-        if (shakeRef.current < 0.5) shakeRef.current = 0;
-      }
-
-      // Rotation (A/D or Left/Right)
-      if (keysRef.current['KeyA'] || keysRef.current['ArrowLeft']) ship.rotation -= ship.shipConfig.rotationSpeed;
-      if (keysRef.current['KeyD'] || keysRef.current['ArrowRight']) ship.rotation += ship.shipConfig.rotationSpeed;
-
-      // Thrust (W/Up)
-      const isThrusting = keysRef.current['KeyW'] || keysRef.current['ArrowUp'];
-      if (isThrusting && ship.currentFuel > 0) {
-        ship.velocity.x += Math.cos(ship.rotation) * ship.shipConfig.acceleration;
-        ship.velocity.y += Math.sin(ship.rotation) * ship.shipConfig.acceleration;
-        ship.currentFuel -= ship.shipConfig.thrustConsumptionRate;
-        
-        // Play Thrust Sound
-        soundManagerRef.current?.startThrust();
+    const fx = () => fxRandomRef.current();
+
+    // Turns simulation events into sound, particles and screen shake
+    const handleEvents = (events: GameEvent[]) => {
+      const sound = soundManagerRef.current;
+      const listener = worldRef.current!.ship.position;
+      events.forEach(event => {
+        switch (event.type) {
+          case 'ALIEN_SPAWNED':
+            sound?.startEnemyVoice(event.alien.id, ENEMIES[event.alien.kind].voice, event.alien, listener);
+            break;
+          case 'CARGO_STOLEN':
+            sound?.playAlienZap(event.alien, listener);
+            particlesRef.current.push({
+              x: worldRef.current!.ship.position.x,
+              y: worldRef.current!.ship.position.y - 20,
+              vx: 0, vy: -60,
+              life: 1, maxLife: 1,
+              color: '#ef4444', // Red
+              size: 0,
+              text: `-1 ${event.mineral}`
+            });
+            break;
+          case 'FUEL_SIPHONED':
+            sound?.playAlienZap(event.alien, listener);
+            particlesRef.current.push({
+              x: worldRef.current!.ship.position.x,
+              y: worldRef.current!.ship.position.y - 20,
+              vx: 0, vy: -60,
+              life: 1, maxLife: 1,
+              color: '#facc15', // Yellow
+              size: 0,
+              text: `-${Math.ceil(event.amount)} FUEL`
+            });
+            break;
+          case 'ASTEROID_RAMMED': {
+            const ast = event.asteroid;
+            sound?.playImpact(0.6, event.alien, listener);
+            for(let k=0; k<6; k++) {
+              particlesRef.current.push({
+                x: ast.x,
+                y: ast.y,
+                vx: (fx()-0.5)*240,
+                vy: (fx()-0.5)*240,
+                life: 0.5, maxLife: 0.5,
+                color: ENEMIES[event.alien.kind].colorLights,
+                size: 2
+              });
+            }
+            break;
+          }
+          case 'ALIEN_FLEEING':
+            particlesRef.current.push({
+              x: event.alien.x,
+              y: event.alien.y - 40,
+              vx: 0, vy: -40,
+              life: 1.5, maxLife: 1.5,
+              color: '#ef4444',
+              size: 0,
+              text: `${ENEMIES[event.alien.kind].name} RUNNING`
+            });
+            break;
+          case 'ALIEN_ESCAPED': {
+            const alien = event.alien;
+            const stolen = Object.values(alien.stolenCargo).reduce((total, n) => total + (n || 0), 0);
+            sound?.playWarp(alien, listener);
+            sound?.stopEnemyVoice(alien.id);
+            for(let k=0; k<20; k++) {
+              const angle = fx() * Math.PI * 2;
+              particlesRef.current.push({
+                x: alien.x,
+                y: alien.y,
+                vx: Math.cos(angle) * 300,
+                vy: Math.sin(angle) * 300,
+                life: 0.5, maxLife: 0.5,
+                color: ENEMIES[alien.kind].colorLights,
+                size: 2
+              });
+            }
+            if (stolen > 0 || alien.stolenFuel > 0) {
+              particlesRef.current.push({
+                x: worldRef.current!.ship.position.x,
+                y: worldRef.current!.ship.position.y - 40,
+                vx: 0, vy: -40,
+                life: 2, maxLife: 2,
+                color: '#ef4444',
+                size: 0,
+                text: stolen > 0 ? `THIEF ESCAPED // ${stolen} ORE LOST` : `THIEF ESCAPED // ${Math.ceil(alien.stolenFuel)} FUEL LOST`
+              });
+            }
+            break;
+          }
+          case 'ALIEN_DESTROYED': {
+            const alien = event.alien;
+            sound?.playExplosion(alien, listener);
+            sound?.stopEnemyVoice(alien.id);
+            shakeRef.current = alien.kind === 'drone' ? 8 : 20;
+            for(let k=0; k<30; k++) {
+              particlesRef.current.push({
+                x: alien.x,
+                y: alien.y,
+                vx: (fx()-0.5)*480,
+                vy: (fx()-0.5)*480,
+                life: 0.7 + fx() * 0.5,
+                maxLife: 1.2,
+                color: fx() > 0.5 ? ENEMIES[alien.kind].colorBody : ENEMIES[alien.kind].colorLights,
+                size: 2 + fx() * 3
+              });
+            }
+            if (alien.stolenFuel > 0) {
+              particlesRef.current.push({
+                x: alien.x,
+                y: alien.y - 20,
+                vx: 0, vy: -60,
+                life: 1.2, maxLife: 1.2,
+                color: '#facc15', // Yellow
+                size: 0,
+                text: `+${Math.ceil(alien.stolenFuel)} FUEL`
+              });
+            }
+            break;
+          }
+          case 'WEAPON_FIRED':
+            if (event.weapon === 'torpedo') sound?.playTorpedo();
+            else sound?.playCannon();
+            break;
+          case 'WEAPON_OVERHEATED':
+            sound?.playOverheat();
+            particlesRef.current.push({
+              x: worldRef.current!.ship.position.x,
+              y: worldRef.current!.ship.position.y - 30,
+              vx: 0, vy: -40,
+              life: 1.2, maxLife: 1.2,
+              color: '#ef4444',
+              size: 0,
+              text: 'GUNS OVERHEATED'
+            });
+            break;
+          case 'PROJECTILE_HIT': {
+            const shot = event.projectile;
+            const def = WEAPONS[shot.weapon];
+            const big = def.blastRadius > 0;
+            if (big) {
+              sound?.playExplosion(shot, listener);
+              shakeRef.current = Math.max(shakeRef.current, 12);
+            }
+            for(let k=0; k<(big ? 24 : 4); k++) {
+              particlesRef.current.push({
+                x: shot.x,
+                y: shot.y,
+                vx: (fx()-0.5)*(big ? 600 : 200),
+                vy: (fx()-0.5)*(big ? 600 : 200),
+                life: big ? 0.6 : 0.2,
+                maxLife: big ? 0.6 : 0.2,
+                color: def.color,
+                size: big ? 3 : 1
+              });
+            }
+            break;
+          }
+          case 'ASTEROID_DESTROYED': {
+            const ast = event.asteroid;
+            sound?.playExplosion(ast, listener);
+            shakeRef.current = 15;
+            for(let k=0; k<8; k++) {
+              particlesRef.current.push({
+                x: ast.x + (fx()-0.5) * ast.radius * 0.5,
+                y: ast.y + (fx()-0.5) * ast.radius * 0.5,
+                vx: (fx()-0.5)*180,
+                vy: (fx()-0.5)*180,
+                life: 1 + fx() * 0.7,
+                maxLife: 1.7,
+                color: MINERAL_COLORS[ast.type],
+                size: 3 + fx() * 4 
+              });
+            }
+            for(let k=0; k<15; k++) {
+              particlesRef.current.push({
+                x: ast.x + (fx()-0.5) * ast.radius,
+                y: ast.y + (fx()-0.5) * ast.radius,
+                vx: (fx()-0.5)*360,
+                vy: (fx()-0.5)*360,
+                life: 0.5 + fx() * 0.3,
+                maxLife: 0.8,
+                color: MINERAL_COLORS[ast.type],
+                size: 1 + fx() * 2
+              });
+            }
+            break;
+          }
+          case 'SHIP_COLLISION': {
+            const impact = event.damage + event.shielded;
+            sound?.playImpact(Math.min(1, impact / 20), listener, listener);
+            shakeRef.current = Math.max(shakeRef.current, 4 + event.damage);
+            particlesRef.current.push({
+              x: worldRef.current!.ship.position.x,
+              y: worldRef.current!.ship.position.y - 20,
+              vx: 0, vy: -60,
+              life: 1, maxLife: 1,
+              color: event.damage > 0 ? '#f97316' : '#22d3ee', // Orange, or cyan when the shield took it all
+              size: 0,
+              text: event.damage > 0 ? `HULL -${Math.ceil(event.damage)}` : `SHIELD -${Math.ceil(event.shielded)}`
+            });
+            break;
+          }
+          case 'SHIP_DESTROYED': {
+            const { position } = worldRef.current!.ship;
+            sound?.playExplosion(position, listener);
+            for(let k=0; k<40; k++) {
+              particlesRef.current.push({
+                x: position.x,
+                y: position.y,
+                vx: (fx()-0.5)*480,
+                vy: (fx()-0.5)*480,
+                life: 0.7 + fx() * 0.6,
+                maxLife: 1.3,
+                color: fx() > 0.5 ? '#ffffff' : '#fbbf24',
+                size: 2 + fx() * 3
+              });
+            }
+            break;
+          }
+          case 'LOOT_COLLECTED':
+            sound?.playCollect();
+            particlesRef.current.push({
+              x: event.loot.x,
+              y: event.loot.y,
+              vx: 0, vy: -60,
+              life: 1, maxLife: 1,
+              color: '#aaffaa',
+              size: 0,
+              text: `+${event.loot.amount} ${event.loot.type}`
+            });
+            break;
+          case 'CARGO_FULL':
+            if (fx() < 0.05) {
+              particlesRef.current.push({
+                x: event.loot.x,
+                y: event.loot.y,
+                vx: 0, vy: -30,
+                life: 0.7, maxLife: 0.7,
+                color: '#ef4444',
+                size: 0,
+                text: 'CARGO FULL'
+              });
+            }
+            break;
+          case 'CONTRACT_COMPLETED':
+          case 'CONTRACT_FAILED': {
+            const completed = event.type === 'CONTRACT_COMPLETED';
+            if (completed) sound?.playCollect();
+            particlesRef.current.push({
+              x: worldRef.current!.ship.position.x,
+              y: worldRef.current!.ship.position.y - 40,
+              vx: 0, vy: -40,
+              life: 2.5, maxLife: 2.5,
+              color: completed ? '#22c55e' : '#ef4444',
+              size: 0,
+              text: completed ? 'CONTRACT COMPLETE' : 'CONTRACT FAILED'
+            });
+            break;
+          }
+        }
+      });
+    };
 
-        // Spawn thrust particles
+    // Cosmetic particles emitted once per simulation tick
+    const spawnTickEffects = (world: World) => {
+      const ship = world.ship;
+      if (world.isThrusting) {
         // Offset to rear of ship (approx -22 relative X)
         const exhaustOffset = 22;
-        const exX = ship.position.x - Math.cos(ship.rotation) * exhaustOffset;
-        const exY = ship.position.y - Math.sin(ship.rotation) * exhaustOffset;
-
         particlesRef.current.push({
-            x: exX,
-            y: exY,
-            vx: ship.velocity.x - Math.cos(ship.rotation) * 3 + (Math.random()-0.5),
-            vy: ship.velocity.y - Math.sin(ship.rotation) * 3 + (Math.random()-0.5),
-            life: 20,
-            maxLife: 20,
+            x: ship.position.x - Math.cos(ship.rotation) * exhaustOffset,
+            y: ship.position.y - Math.sin(ship.rotation) * exhaustOffset,
+            vx: ship.velocity.x - Math.cos(ship.rotation) * 180 + (fx()-0.5) * 60,
+            vy: ship.velocity.y - Math.sin(ship.rotation) * 180 + (fx()-0.5) * 60,
+            life: 0.33,
+            maxLife: 0.33,
             color: '#fbbf24', // Amber
             size: 2
         });
-      } else {
-        // Stop Thrust Sound
-        soundManagerRef.current?.stopThrust();
       }
 
-      // Friction/Space Drag (Newtonian-lite)
-      ship.velocity.x *= 0.99;
-      ship.velocity.y *= 0.99;
-
-      // Cap speed
-      const speed = Math.sqrt(ship.velocity.x**2 + ship.velocity.y**2);
-      if (speed > ship.shipConfig.maxSpeed) {
-        ship.velocity.x = (ship.velocity.x / speed) * ship.shipConfig.maxSpeed;
-        ship.velocity.y = (ship.velocity.y / speed) * ship.shipConfig.maxSpeed;
+      // Hit particles
+      if (world.beam && fx() > 0.5) {
+        const isAlien = world.beam.target === 'ALIEN';
+        const spread = isAlien ? 30 : 20;
+        const kick = isAlien ? 300 : 180;
+        particlesRef.current.push({
+          x: world.beam.x + (fx()-0.5)*spread,
+          y: world.beam.y + (fx()-0.5)*spread,
+          vx: (fx()-0.5)*kick,
+          vy: (fx()-0.5)*kick,
+          life: isAlien ? 0.33 : 0.25,
+          maxLife: isAlien ? 0.33 : 0.25,
+          color: world.beam.enemy ? ENEMIES[world.beam.enemy].colorLights : '#ffffff',
+          size: isAlien ? 2 : 1
+        });
       }
+    };
 
-      // Update Position
-      ship.position.x += ship.velocity.x;
-      ship.position.y += ship.velocity.y;
+    // Bindings may have been changed in the controls screen while docked
+    if (inputRef.current) inputRef.current.bindings = loadBindings();
+
+    const readInput = (world: World, input: InputManager, canvas: HTMLCanvasElement): SimInput => {
+      const rect = canvas.getBoundingClientRect();
+      return {
+        thrust: input.value('thrust'),
+        rotateLeft: input.value('rotateLeft'),
+        rotateRight: input.value('rotateRight'),
+        brake: input.value('dock'),
+        fire: input.isHeld('fire'),
+        shoot: input.isHeld('shoot'),
+        shootSecondary: input.isHeld('shootSecondary'),
+        aim: input.aimSource === 'PAD'
+          ? stickAim(world, input.aimDirection)
+          : { x: input.pointer.x - rect.left + cameraRef.current.x, y: input.pointer.y - rect.top + cameraRef.current.y },
+      };
+    };
 
-      // Idle Fuel Consumption
-      if (ship.currentFuel > 0) {
-        ship.currentFuel -= ship.shipConfig.fuelConsumptionRate;
-      } else {
-          // Game Over Check
-          if (Math.abs(ship.velocity.x) < 0.1 && Math.abs(ship.velocity.y) < 0.1) {
-              soundManagerRef.current?.stopLaser();
-              soundManagerRef.current?.stopThrust();
-              soundManagerRef.current?.stopAlienHum();
-              onGameOver();
-              return; // Stop loop
-          }
-      }
+    let lastTime = performance.now();
+    let accumulator = 0;
+    let shownTick = -1;
+    let shownPaused = false;
+
+    // Jumps the replay to `target`: forward from here, or from the start when scrubbing back
+    const seekReplay = (recording: Replay, target: number) => {
+      let world = worldRef.current;
+      if (!world || target < world.tick) world = createReplayWorld(recording);
+      worldRef.current = world;
+      advanceReplay(world, playbackRef.current.inputs, target);
+      prevPosesRef.current = snapshotPoses(world, Math.max(window.innerWidth, window.innerHeight));
+      particlesRef.current = [];
+      accumulator = 0;
+    };
 
-      // Camera Follow
-      cameraRef.current.x = ship.position.x - width / 2;
-      cameraRef.current.y = ship.position.y - height / 2;
-
-      // --- Alien Logic ---
-      // Spawn Alien
-      if (!alienRef.current) {
-          if (Math.random() < ALIEN_CONFIG.SPAWN_RATE) {
-              const angle = Math.random() * Math.PI * 2;
-              const dist = Math.max(width, height) * 1.2; // Spawn outside view
-              alienRef.current = {
-                  id: `alien-${Date.now()}`,
-                  x: ship.position.x + Math.cos(angle) * dist,
-                  y: ship.position.y + Math.sin(angle) * dist,
-                  vx: 0, vy: 0,
-                  hp: ALIEN_CONFIG.HP,
-                  maxHp: ALIEN_CONFIG.HP,
-                  stolenCargo: {},
-                  state: 'CHASING',
-                  drainTimer: 0,
-                  wobbleAngle: 0
-              };
-              soundManagerRef.current?.startAlienHum();
-          }
+    const loop = (time: number) => {
+      const playback = playbackRef.current;
+      if (replay && playback.seek !== null) {
+        seekReplay(replay, playback.seek);
+        playback.seek = null;
       }
+      const world = worldRef.current;
+      const controls = inputRef.current;
+      if (!ctx || !canvasRef.current || !world || !controls) return;
+      const ship = world.ship;
+      const { width, height } = canvasRef.current;
 
-      // Update Alien
-      if (alienRef.current) {
-          const alien = alienRef.current;
-          const dx = ship.position.x - alien.x;
-          const dy = ship.position.y - alien.y;
-          const dist = Math.sqrt(dx*dx + dy*dy);
-          
-          alien.wobbleAngle += 0.1;
-
-          // AI Movement
-          if (dist > ALIEN_CONFIG.DRAIN_RANGE * 0.7) {
-              // Chase
-              const angle = Math.atan2(dy, dx);
-              alien.vx += Math.cos(angle) * 0.1;
-              alien.vy += Math.sin(angle) * 0.1;
-              alien.state = 'CHASING';
-          } else {
-              // Brake/Hover
-              alien.vx *= 0.95;
-              alien.vy *= 0.95;
-              alien.state = 'DRAINING';
-          }
+      controls.poll();
+      if (controls.wasPressed('pause')) callbacksRef.current.onTogglePause();
+      if (controls.wasPressed('mute')) callbacksRef.current.onToggleMute();
+      // Paused: keep listening for the resume key and leave the last frame on screen
+      if (gameState === GameState.PAUSED) {
+        animationFrameId = requestAnimationFrame(loop);
+        return;
+      }
+      if (controls.wasPressed('map')) callbacksRef.current.onToggleMap();
 
-          // Speed Cap
-          const alienSpeed = Math.sqrt(alien.vx**2 + alien.vy**2);
-          if (alienSpeed > ALIEN_CONFIG.SPEED) {
-              alien.vx = (alien.vx / alienSpeed) * ALIEN_CONFIG.SPEED;
-              alien.vy = (alien.vy / alienSpeed) * ALIEN_CONFIG.SPEED;
-          }
+      // 1. Simulation: fixed ticks, however long this frame took
+      const frameDt = Math.min(Math.max(0, (time - lastTime) / 1000), MAX_FRAME_TIME);
+      lastTime = time;
+      if (!replay) accumulator += frameDt;
+      else if (!playback.paused) accumulator += frameDt * playback.speed;
 
-          alien.x += alien.vx;
-          alien.y += alien.vy;
-
-          // Vampiric Drain
-          if (alien.state === 'DRAINING' && dist < ALIEN_CONFIG.DRAIN_RANGE) {
-              alien.drainTimer++;
-              if (alien.drainTimer >= ALIEN_CONFIG.DRAIN_INTERVAL) {
-                  // Steal Cargo
-                  const availableTypes = (Object.keys(ship.cargo) as MineralType[])
-                      .filter(t => ship.cargo[t] > 0);
-                  
-                  if (availableTypes.length > 0) {
-                      const typeToSteal = availableTypes[Math.floor(Math.random() * availableTypes.length)];
-                      
-                      // Transfer
-                      ship.cargo[typeToSteal]--;
-                      alien.stolenCargo[typeToSteal] = (alien.stolenCargo[typeToSteal] || 0) + 1;
-                      
-                      soundManagerRef.current?.playAlienZap();
-                      
-                      // Visual text on ship
-                      particlesRef.current.push({
-                          x: ship.position.x,
-                          y: ship.position.y - 20,
-                          vx: 0, vy: -1,
-                          life: 60, maxLife: 60,
-                          color: '#ef4444', // Red
-                          size: 0,
-                          text: `-1 ${typeToSteal}`
-                      });
-                  }
-                  alien.drainTimer = 0;
-              }
-          }
-      } else {
-        soundManagerRef.current?.stopAlienHum();
+      // Shake Decay
+      if (shakeRef.current > 0) {
+        shakeRef.current *= Math.pow(SHAKE_DECAY, frameDt);
+        if (shakeRef.current < 0.5) shakeRef.current = 0;
       }
 
+      // Live flights are stepped with the input as the recording stores it
+      const liveInput = replay ? null : quantizeInput(readInput(world, controls, canvasRef.current));
+      while (accumulator >= SIM_DT) {
+        if (replay && world.tick >= playback.inputs.length) {
+          playback.paused = true;
+          accumulator = 0;
+          break;
+        }
+        // Only the last tick of the frame matters for interpolation
+        if (accumulator < SIM_DT * 2) prevPosesRef.current = snapshotPoses(world, Math.max(width, height));
+
+        const input = liveInput ?? playback.inputs[world.tick];
+        const recording = recordingRef.current;
+        if (recording) recordTick(recording, input);
+        const events = step(world, input, SIM_DT);
+        accumulator -= SIM_DT;
+        handleEvents(events);
+        spawnTickEffects(world);
+
+        const ending = endingOf(events);
+        if (!ending) continue;
+        if (!recording) {
+          // A replay just stops where the flight ended
+          playback.paused = true;
+          accumulator = 0;
+          break;
+        }
 
-      // Mining & Combat Logic
-      let miningTarget: Asteroid | null = null;
-      let attackingAlien = false;
+        finishRecording(recording, world, ending);
+        const docked = events.find(e => e.type === 'DOCKED');
+        if (docked?.type === 'DOCKED') {
+          callbacksRef.current.onDock({
+            player: ship,
+            field: extractField(world),
+            contracts: extractContracts(world),
+            flightTime: world.tick * SIM_DT,
+            station: docked.station,
+            replay: recording,
+          });
+          return;
+        }
+        soundManagerRef.current?.stopLaser();
+        soundManagerRef.current?.stopThrust();
+        soundManagerRef.current?.stopEnemyVoices();
+        callbacksRef.current.onGameOver({
+          reason: ending as GameOverReason,
+          player: ship,
+          field: extractField(world),
+          contracts: extractContracts(world),
+          flightTime: world.tick * SIM_DT,
+          replay: recording,
+        });
+        return; // Stop loop
+      }
 
-      const worldMouseX = mouseRef.current.x + cameraRef.current.x;
-      const worldMouseY = mouseRef.current.y + cameraRef.current.y;
+      if (replay && (world.tick !== shownTick || playback.paused !== shownPaused)) {
+        shownTick = world.tick;
+        shownPaused = playback.paused;
+        setPlaybackView({ tick: world.tick, paused: playback.paused, speed: playback.speed });
+      }
 
-      if (mouseRef.current.isDown && ship.currentFuel > 0) {
-          const noseOffset = 30;
-          const lx = ship.position.x + Math.cos(ship.rotation) * noseOffset;
-          const ly = ship.position.y + Math.sin(ship.rotation) * noseOffset;
-
-          // 1. Check Alien Hit
-          if (alienRef.current) {
-              const alien = alienRef.current;
-              // Simple Line to Circle collision check
-              // Vector from laser start to alien center
-              const ax = alien.x - lx;
-              const ay = alien.y - ly;
-              const alienDist = Math.sqrt(ax*ax + ay*ay);
-              
-              // Check if mouse is roughly over alien (aim assist)
-              const mouseDx = worldMouseX - alien.x;
-              const mouseDy = worldMouseY - alien.y;
-              const mouseDist = Math.sqrt(mouseDx*mouseDx + mouseDy*mouseDy);
-
-              if (mouseDist < 50 && alienDist < ship.shipConfig.miningRange) {
-                  attackingAlien = true;
-                  alien.hp -= ship.shipConfig.miningPower;
-                  ship.currentFuel -= ship.shipConfig.thrustConsumptionRate * 0.5;
-                  
-                  soundManagerRef.current?.startLaser();
-                  shakeRef.current = Math.max(shakeRef.current, 2);
-
-                   // Hit particles
-                   if (Math.random() > 0.5) {
-                    particlesRef.current.push({
-                        x: alien.x + (Math.random()-0.5)*30,
-                        y: alien.y + (Math.random()-0.5)*30,
-                        vx: (Math.random()-0.5)*5,
-                        vy: (Math.random()-0.5)*5,
-                        life: 20,
-                        maxLife: 20,
-                        color: ALIEN_CONFIG.COLOR_LIGHTS,
-                        size: 2
-                    });
-                  }
-
-                  if (alien.hp <= 0) {
-                      // Alien Destroyed
-                      soundManagerRef.current?.playExplosion();
-                      soundManagerRef.current?.stopAlienHum();
-                      shakeRef.current = 20;
-
-                      // Drop stolen cargo
-                      Object.keys(alien.stolenCargo).forEach(key => {
-                          const type = key as MineralType;
-                          const amount = alien.stolenCargo[type] || 0;
-                          if (amount > 0) {
-                              lootRef.current.push({
-                                  id: `loot-alien-${Date.now()}-${type}`,
-                                  x: alien.x,
-                                  y: alien.y,
-                                  vx: (Math.random() - 0.5) * 3,
-                                  vy: (Math.random() - 0.5) * 3,
-                                  type: type,
-                                  amount: amount,
-                                  life: LOOT_DESPAWN_TIME
-                              });
-                          }
-                      });
-
-                      // Explosion Particles
-                      for(let k=0; k<30; k++) {
-                        particlesRef.current.push({
-                          x: alien.x,
-                          y: alien.y,
-                          vx: (Math.random()-0.5)*8,
-                          vy: (Math.random()-0.5)*8,
-                          life: 40 + Math.random() * 30,
-                          maxLife: 70,
-                          color: Math.random() > 0.5 ? ALIEN_CONFIG.COLOR_BODY : ALIEN_CONFIG.COLOR_LIGHTS,
-                          size: 2 + Math.random() * 3
-                        });
-                      }
-
-                      alienRef.current = null;
-                  }
-              }
-          }
+      // Blend between the previous and current tick
+      const alpha = accumulator / SIM_DT;
+      const lerpPose = (id: string, x: number, y: number, rotation: number): Pose => {
+        const prev = prevPosesRef.current.get(id);
+        if (!prev) return { x, y, rotation };
+        return {
+          x: prev.x + (x - prev.x) * alpha,
+          y: prev.y + (y - prev.y) * alpha,
+          rotation: prev.rotation + (rotation - prev.rotation) * alpha,
+        };
+      };
+      const shipPose = lerpPose('ship', ship.position.x, ship.position.y, ship.rotation);
+
+      // Continuous sounds follow world state
+      if (world.isThrusting) {
+        soundManagerRef.current?.startThrust();
+      } else {
+        soundManagerRef.current?.stopThrust();
+      }
 
-          // 2. Check Asteroids if not attacking alien
-          if (!attackingAlien) {
-            for (let ast of asteroidsRef.current) {
-                const dx = worldMouseX - ast.x;
-                const dy = worldMouseY - ast.y;
-                if (dx*dx + dy*dy < ast.radius * ast.radius) {
-                    // Check range
-                    const distToShip = Math.sqrt((ast.x - ship.position.x)**2 + (ast.y - ship.position.y)**2);
-                    if (distToShip <= ship.shipConfig.miningRange) {
-                        miningTarget = ast;
-                        break; // Only mine one at a time
-                    }
-                }
-            }
-          }
+      if (world.beam) {
+        soundManagerRef.current?.startLaser();
+        shakeRef.current = Math.max(shakeRef.current, 2);
+      } else {
+        soundManagerRef.current?.stopLaser();
       }
 
-      // Logic for Asteroid Mining (Copied/Refined from previous)
-      if (miningTarget) {
-          miningTarget.isHeating = true;
-          miningTarget.health -= ship.shipConfig.miningPower;
-          ship.currentFuel -= ship.shipConfig.thrustConsumptionRate * 0.5;
-          soundManagerRef.current?.startLaser();
-          shakeRef.current = Math.max(shakeRef.current, 2);
-
-          if (Math.random() > 0.5) {
-             particlesRef.current.push({
-                x: miningTarget.x + (Math.random()-0.5)*20,
-                y: miningTarget.y + (Math.random()-0.5)*20,
-                vx: (Math.random()-0.5)*3,
-                vy: (Math.random()-0.5)*3,
-                life: 15,
-                maxLife: 15,
-                color: '#ffffff',
-                size: 1
-             });
-          }
+      soundManagerRef.current?.trackEnemyVoices(world.aliens, ship.position);
+      soundManagerRef.current?.setMusicMood(musicMood(world));
 
-          if (miningTarget.health <= 0) {
-              soundManagerRef.current?.playExplosion();
-              shakeRef.current = 15;
-              const lootAmount = Math.floor(miningTarget.radius / 5); 
-              lootRef.current.push({
-                  id: `loot-${Date.now()}`,
-                  x: miningTarget.x,
-                  y: miningTarget.y,
-                  vx: (Math.random() - 0.5) * 1.5,
-                  vy: (Math.random() - 0.5) * 1.5,
-                  type: miningTarget.type,
-                  amount: lootAmount,
-                  life: LOOT_DESPAWN_TIME
-              });
-              // Shatter effects...
-              for(let k=0; k<8; k++) {
-                  particlesRef.current.push({
-                    x: miningTarget.x + (Math.random()-0.5) * miningTarget.radius * 0.5,
-                    y: miningTarget.y + (Math.random()-0.5) * miningTarget.radius * 0.5,
-                    vx: (Math.random()-0.5)*3,
-                    vy: (Math.random()-0.5)*3,
-                    life: 60 + Math.random() * 40,
-                    maxLife: 100,
-                    color: MINERAL_COLORS[miningTarget.type],
-                    size: 3 + Math.random() * 4 
-                  });
-              }
-              for(let k=0; k<15; k++) {
-                particlesRef.current.push({
-                  x: miningTarget.x + (Math.random()-0.5) * miningTarget.radius,
-                  y: miningTarget.y + (Math.random()-0.5) * miningTarget.radius,
-                  vx: (Math.random()-0.5)*6,
-                  vy: (Math.random()-0.5)*6,
-                  life: 30 + Math.random() * 20,
-                  maxLife: 50,
-                  color: MINERAL_COLORS[miningTarget.type],
-                  size: 1 + Math.random() * 2
-                });
-            }
-            asteroidsRef.current = asteroidsRef.current.filter(a => a !== miningTarget);
-          }
-      } 
-      
-      if (!miningTarget && !attackingAlien) {
-          soundManagerRef.current?.stopLaser();
-      }
-      
-      // --- Loot Logic ---
-      lootRef.current.forEach(loot => {
-          // Physics (drag)
-          loot.x += loot.vx;
-          loot.y += loot.vy;
-          loot.vx *= 0.95;
-          loot.vy *= 0.95;
-          loot.life--;
-          
-          // Collision with ship
-          const dx = ship.position.x - loot.x;
-          const dy = ship.position.y - loot.y;
-          const dist = Math.sqrt(dx*dx + dy*dy);
-          
-          if (dist < LOOT_COLLECTION_RANGE) {
-              const currentCargoTotal = Object.values(ship.cargo).reduce((a,b) => a+b, 0);
-              
-              if (currentCargoTotal + loot.amount <= ship.shipConfig.maxCargo) {
-                  // Collect
-                  ship.cargo[loot.type] = (ship.cargo[loot.type] || 0) + loot.amount;
-                  loot.life = 0; // Remove
-                  
-                  // Play Collect Sound
-                  soundManagerRef.current?.playCollect();
-                  
-                  // Visual Feedback (Floating Text)
-                  particlesRef.current.push({
-                      x: loot.x,
-                      y: loot.y,
-                      vx: 0, vy: -1,
-                      life: 60, maxLife: 60,
-                      color: '#aaffaa',
-                      size: 0,
-                      text: `+${loot.amount} ${loot.type}`
-                  });
-              } else {
-                  // Full
-                  if (Math.random() < 0.05) {
-                      particlesRef.current.push({
-                          x: loot.x,
-                          y: loot.y,
-                          vx: 0, vy: -0.5,
-                          life: 40, maxLife: 40,
-                          color: '#ef4444',
-                          size: 0,
-                          text: 'CARGO FULL'
-                      });
-                  }
-              }
-          }
-      });
-      lootRef.current = lootRef.current.filter(l => l.life > 0);
-
-      // Docking Logic
-      const distToStation = Math.sqrt(ship.position.x**2 + ship.position.y**2);
-      if (distToStation < DOCKING_RANGE && speed < 2) {
-          if (speed < 0.5) {
-              onDock(ship);
-              return;
-          }
-      }
+      // Camera Follow
+      cameraRef.current.x = shipPose.x - width / 2;
+      cameraRef.current.y = shipPose.y - height / 2;
+
+      const speed = Math.sqrt(ship.velocity.x**2 + ship.velocity.y**2);
+      const stationInRange = STATIONS.find(s =>
+        Math.sqrt((ship.position.x - s.x)**2 + (ship.position.y - s.y)**2) < s.radius + DOCKING_MARGIN);
 
 
       // --- Rendering ---
@@ -626,8 +873,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       ctx.fillRect(0, 0, width, height);
 
       // Apply Shake to Camera
-      const shakeX = (Math.random() - 0.5) * shakeRef.current;
-      const shakeY = (Math.random() - 0.5) * shakeRef.current;
+      const shakeX = (fx() - 0.5) * shakeRef.current;
+      const shakeY = (fx() - 0.5) * shakeRef.current;
 
       ctx.save();
       ctx.translate(-(cameraRef.current.x + shakeX), -(cameraRef.current.y + shakeY));
@@ -677,7 +924,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
           const factor = (1 - star.depth);
           const px = star.x + (cameraRef.current.x * factor);
           const py = star.y + (cameraRef.current.y * factor);
-          ctx.globalAlpha = Math.random() * 0.5 + 0.3;
+          ctx.globalAlpha = fx() * 0.5 + 0.3;
           ctx.fillStyle = '#ffffff';
           ctx.beginPath();
           ctx.arc(px, py, star.size, 0, Math.PI*2);
@@ -685,25 +932,33 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       });
       ctx.globalAlpha = 1.0;
 
-      // Draw Station
-      ctx.strokeStyle = '#00ff00';
+      // Draw Stations
       ctx.lineWidth = 2;
       ctx.shadowBlur = 10;
-      ctx.shadowColor = '#00ff00';
-      ctx.beginPath();
-      ctx.arc(STATION_POSITION.x, STATION_POSITION.y, STATION_RADIUS, 0, Math.PI*2);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.arc(STATION_POSITION.x, STATION_POSITION.y, STATION_RADIUS * 0.4, 0, Math.PI*2);
-      ctx.stroke();
       ctx.font = '20px monospace';
-      ctx.fillStyle = '#00ff00';
       ctx.textAlign = 'center';
-      ctx.fillText("RETRO-ROCKET STATION", STATION_POSITION.x, STATION_POSITION.y + STATION_RADIUS + 40);
+      STATIONS.forEach(station => {
+        ctx.strokeStyle = station.color;
+        ctx.shadowColor = station.color;
+        ctx.beginPath();
+        ctx.arc(station.x, station.y, station.radius, 0, Math.PI*2);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(station.x, station.y, station.radius * 0.4, 0, Math.PI*2);
+        ctx.stroke();
+        ctx.fillStyle = station.color;
+        ctx.fillText(station.name, station.x, station.y + station.radius + 40);
+      });
 
-      // Draw Asteroids
-      asteroidsRef.current.forEach(ast => {
-          ast.rotation += ast.rotationSpeed;
+      // Draw Asteroids (only the buckets overlapping the viewport)
+      const cullMargin = 100;
+      world.asteroidIndex.queryRect(
+        cameraRef.current.x - cullMargin,
+        cameraRef.current.y - cullMargin,
+        cameraRef.current.x + width + cullMargin,
+        cameraRef.current.y + height + cullMargin
+      ).forEach(ast => {
+          const pose = lerpPose(ast.id, ast.x, ast.y, ast.rotation);
           ctx.shadowColor = ast.isHeating ? '#ff0000' : MINERAL_COLORS[ast.type];
           ctx.shadowBlur = ast.isHeating ? 20 : 5;
           ctx.strokeStyle = ast.isHeating ? '#ffffff' : MINERAL_COLORS[ast.type];
@@ -711,12 +966,12 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
           
           if (ast.isHeating) {
               ctx.save();
-              ctx.translate(ast.x + (Math.random()-0.5)*2, ast.y + (Math.random()-0.5)*2);
+              ctx.translate(pose.x + (fx()-0.5)*2, pose.y + (fx()-0.5)*2);
           } else {
               ctx.save();
-              ctx.translate(ast.x, ast.y);
+              ctx.translate(pose.x, pose.y);
           }
-          ctx.rotate(ast.rotation);
+          ctx.rotate(pose.rotation);
           ctx.beginPath();
           ast.vertices.forEach((p, i) => {
               if (i===0) ctx.moveTo(p.x, p.y);
@@ -735,8 +990,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
           if (ast.health < ast.maxHealth) {
               const barW = 30;
               const barH = 4;
-              const barX = ast.x - barW / 2;
-              const barY = ast.y - ast.radius - 12;
+              const barX = pose.x - barW / 2;
+              const barY = pose.y - ast.radius - 12;
               ctx.save(); 
               ctx.shadowBlur = 0;
               ctx.fillStyle = '#000000';
@@ -749,31 +1004,33 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
               ctx.strokeRect(barX, barY, barW, barH);
               ctx.restore();
           }
-          ast.isHeating = false; 
       });
 
-      // Draw Alien
-      if (alienRef.current) {
-          const alien = alienRef.current;
+      // Draw Aliens
+      world.aliens.forEach(alien => {
+          const def = ENEMIES[alien.kind];
+          const pose = lerpPose(alien.id, alien.x, alien.y, 0);
           ctx.save();
-          ctx.translate(alien.x, alien.y + Math.sin(alien.wobbleAngle)*5);
+          ctx.translate(pose.x, pose.y + Math.sin(alien.wobbleAngle)*5);
+          // The warp drive flickers harder as it nears the jump
+          const alienAlpha = alien.state === 'FLEEING' && fx() > alien.warpTimer / ALIEN_CONFIG.WARP_CHARGE ? 0.35 : 1;
+          ctx.globalAlpha = alienAlpha;
           
           // Lightning Effect
-          if (alien.state === 'DRAINING' && Math.random() > 0.2) {
+          if (alien.state === 'DRAINING' && fx() > 0.2) {
               ctx.beginPath();
               ctx.moveTo(0, 0);
               // Jagged line to ship
-              const dx = ship.position.x - alien.x;
-              const dy = ship.position.y - alien.y;
-              const dist = Math.sqrt(dx*dx + dy*dy);
+              const dx = shipPose.x - pose.x;
+              const dy = shipPose.y - pose.y;
               const segments = 5;
               for(let i=1; i<=segments; i++) {
                   const t = i/segments;
-                  const jx = dx*t + (Math.random()-0.5)*20;
-                  const jy = dy*t + (Math.random()-0.5)*20;
+                  const jx = dx*t + (fx()-0.5)*20;
+                  const jy = dy*t + (fx()-0.5)*20;
                   ctx.lineTo(jx, jy);
               }
-              ctx.shadowColor = ALIEN_CONFIG.COLOR_LIGHTS;
+              ctx.shadowColor = def.colorLights;
               ctx.shadowBlur = 10;
               ctx.strokeStyle = '#ffffff';
               ctx.lineWidth = 2;
@@ -782,38 +1039,74 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
 
           // Body
           ctx.shadowBlur = 15;
-          ctx.shadowColor = ALIEN_CONFIG.COLOR_BODY;
+          ctx.shadowColor = def.colorBody;
           ctx.fillStyle = '#000000';
-          ctx.strokeStyle = ALIEN_CONFIG.COLOR_BODY;
+          ctx.strokeStyle = def.colorBody;
           ctx.lineWidth = 2;
 
-          // Dome
-          ctx.beginPath();
-          ctx.arc(0, -5, 15, Math.PI, 0);
-          ctx.stroke();
-          ctx.fillStyle = ALIEN_CONFIG.COLOR_BODY;
-          ctx.globalAlpha = 0.3;
-          ctx.fill();
-          ctx.globalAlpha = 1.0;
-
-          // Saucer Ring
-          ctx.beginPath();
-          ctx.ellipse(0, 5, 30, 10, 0, 0, Math.PI*2);
-          ctx.stroke();
-          ctx.fillStyle = '#000';
-          ctx.fill();
+          if (alien.kind === 'drone') {
+              // Darting diamond with a single eye
+              ctx.rotate(Math.atan2(alien.vy, alien.vx));
+              ctx.beginPath();
+              ctx.moveTo(12, 0);
+              ctx.lineTo(0, 7);
+              ctx.lineTo(-10, 0);
+              ctx.lineTo(0, -7);
+              ctx.closePath();
+              ctx.fill();
+              ctx.stroke();
+              ctx.fillStyle = def.colorLights;
+              ctx.shadowColor = def.colorLights;
+              ctx.beginPath();
+              ctx.arc(3, 0, 2, 0, Math.PI*2);
+              ctx.fill();
+              ctx.rotate(-Math.atan2(alien.vy, alien.vx));
+          } else if (alien.kind === 'brute') {
+              // Armoured hexagon with a glowing ram plate facing its heading
+              ctx.beginPath();
+              for(let i=0; i<6; i++) {
+                  const a = (i/6) * Math.PI * 2;
+                  ctx.lineTo(Math.cos(a) * def.radius, Math.sin(a) * def.radius * 0.8);
+              }
+              ctx.closePath();
+              ctx.fill();
+              ctx.stroke();
+              const heading = Math.atan2(alien.vy, alien.vx);
+              ctx.strokeStyle = def.colorLights;
+              ctx.shadowColor = def.colorLights;
+              ctx.lineWidth = 4;
+              ctx.beginPath();
+              ctx.arc(0, 0, def.radius + 4, heading - 0.5, heading + 0.5);
+              ctx.stroke();
+          } else {
+              // Dome
+              ctx.beginPath();
+              ctx.arc(0, -5, 15, Math.PI, 0);
+              ctx.stroke();
+              ctx.fillStyle = def.colorBody;
+              ctx.globalAlpha = alienAlpha * 0.3;
+              ctx.fill();
+              ctx.globalAlpha = alienAlpha;
 
-          // Lights
-          const lights = 5;
-          ctx.fillStyle = ALIEN_CONFIG.COLOR_LIGHTS;
-          ctx.shadowColor = ALIEN_CONFIG.COLOR_LIGHTS;
-          for(let i=0; i<lights; i++) {
-              const la = (i/lights) * Math.PI * 2 + alien.wobbleAngle;
-              const lx = Math.cos(la) * 25;
-              const ly = Math.sin(la) * 8 + 5;
+              // Saucer Ring
               ctx.beginPath();
-              ctx.arc(lx, ly, 2, 0, Math.PI*2);
+              ctx.ellipse(0, 5, 30, 10, 0, 0, Math.PI*2);
+              ctx.stroke();
+              ctx.fillStyle = '#000';
               ctx.fill();
+
+              // Lights
+              const lights = 5;
+              ctx.fillStyle = def.colorLights;
+              ctx.shadowColor = def.colorLights;
+              for(let i=0; i<lights; i++) {
+                  const la = (i/lights) * Math.PI * 2 + alien.wobbleAngle;
+                  const lx = Math.cos(la) * 25;
+                  const ly = Math.sin(la) * 8 + 5;
+                  ctx.beginPath();
+                  ctx.arc(lx, ly, 2, 0, Math.PI*2);
+                  ctx.fill();
+              }
           }
 
           // Alien HP Bar
@@ -821,7 +1114,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
             const barW = 40;
             const barH = 4;
             const barX = -20;
-            const barY = -30;
+            const barY = -def.radius - 10;
             ctx.shadowBlur = 0;
             ctx.fillStyle = '#000000';
             ctx.fillRect(barX, barY, barW, barH);
@@ -834,16 +1127,40 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
           }
           
           ctx.restore();
-      }
+      });
+
+      // Draw Projectiles: cannon rounds as streaks along their path, torpedoes as glowing heads
+      world.projectiles.forEach(shot => {
+          const def = WEAPONS[shot.weapon];
+          const pose = lerpPose(shot.id, shot.x, shot.y, 0);
+          const speed = Math.sqrt(shot.vx**2 + shot.vy**2) || 1;
+          ctx.save();
+          ctx.strokeStyle = def.color;
+          ctx.fillStyle = def.color;
+          ctx.shadowColor = def.color;
+          ctx.shadowBlur = 10;
+          ctx.lineWidth = def.radius;
+          ctx.beginPath();
+          ctx.moveTo(pose.x, pose.y);
+          ctx.lineTo(pose.x - (shot.vx / speed) * def.radius * 4, pose.y - (shot.vy / speed) * def.radius * 4);
+          ctx.stroke();
+          if (def.blastRadius > 0) {
+              ctx.beginPath();
+              ctx.arc(pose.x, pose.y, def.radius, 0, Math.PI*2);
+              ctx.fill();
+          }
+          ctx.restore();
+      });
 
       // Draw Loot
-      lootRef.current.forEach(loot => {
+      world.loot.forEach(loot => {
           const color = MINERAL_COLORS[loot.type];
           ctx.fillStyle = color;
           ctx.shadowColor = color;
           ctx.shadowBlur = 15;
           ctx.save();
-          ctx.translate(loot.x, loot.y);
+          const pose = lerpPose(loot.id, loot.x, loot.y, 0);
+          ctx.translate(pose.x, pose.y);
           ctx.beginPath();
           if (loot.type === MineralType.IRON) {
               ctx.fillRect(-4, -4, 8, 8);
@@ -868,11 +1185,47 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
           ctx.restore();
       });
 
+      // Draw Escort Pods (tethered to the ship while towed)
+      world.pods.forEach(pod => {
+          const pose = lerpPose(pod.id, pod.x, pod.y, 0);
+          ctx.strokeStyle = '#fb923c';
+          ctx.shadowColor = '#fb923c';
+          ctx.shadowBlur = 10;
+          ctx.lineWidth = 2;
+          if (pod.towed) {
+              ctx.save();
+              ctx.setLineDash([4, 6]);
+              ctx.lineWidth = 1;
+              ctx.beginPath();
+              ctx.moveTo(pose.x, pose.y);
+              ctx.lineTo(shipPose.x, shipPose.y);
+              ctx.stroke();
+              ctx.restore();
+          }
+          ctx.strokeRect(pose.x - CARGO_POD.RADIUS, pose.y - CARGO_POD.RADIUS, CARGO_POD.RADIUS * 2, CARGO_POD.RADIUS * 2);
+          ctx.fillStyle = '#fb923c';
+          ctx.fillRect(pose.x - CARGO_POD.RADIUS, pose.y + CARGO_POD.RADIUS + 4, CARGO_POD.RADIUS * 2 * (pod.hp / CARGO_POD.HP), 3);
+      });
+      ctx.shadowBlur = 0;
+
+      // Survey waypoints
+      world.contracts.forEach(contract => {
+          if (contract.status !== 'ACTIVE' || contract.objective.kind !== 'SURVEY') return;
+          ctx.save();
+          ctx.strokeStyle = '#e5e7eb';
+          ctx.setLineDash([10, 10]);
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.arc(contract.objective.x, contract.objective.y, CONTRACTS.SURVEY_RADIUS, 0, Math.PI*2);
+          ctx.stroke();
+          ctx.restore();
+      });
+
       // Draw Particles
       particlesRef.current.forEach((p, i) => {
-          p.x += p.vx;
-          p.y += p.vy;
-          p.life--;
+          p.x += p.vx * frameDt;
+          p.y += p.vy * frameDt;
+          p.life -= frameDt;
           ctx.fillStyle = p.color;
           ctx.globalAlpha = p.life / p.maxLife;
           if (p.text) {
@@ -890,22 +1243,19 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       ctx.globalAlpha = 1.0;
 
       // Draw Mining Laser (Player)
-      if (miningTarget || attackingAlien) {
+      if (world.beam) {
           ctx.shadowBlur = 15;
           ctx.shadowColor = '#00ffff';
           ctx.strokeStyle = '#00ffff';
-          ctx.lineWidth = 2 + Math.random() * 2;
+          ctx.lineWidth = 2 + fx() * 2;
           
           const noseOffset = 30;
-          const lx = ship.position.x + Math.cos(ship.rotation) * noseOffset;
-          const ly = ship.position.y + Math.sin(ship.rotation) * noseOffset;
-
-          const targetX = miningTarget ? miningTarget.x : (alienRef.current?.x || 0);
-          const targetY = miningTarget ? miningTarget.y : (alienRef.current?.y || 0);
+          const lx = shipPose.x + Math.cos(shipPose.rotation) * noseOffset;
+          const ly = shipPose.y + Math.sin(shipPose.rotation) * noseOffset;
 
           ctx.beginPath();
           ctx.moveTo(lx, ly);
-          ctx.lineTo(targetX, targetY);
+          ctx.lineTo(world.beam.x, world.beam.y);
           ctx.stroke();
           
           ctx.beginPath();
@@ -915,8 +1265,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       }
 
       // Draw Ship
-      ctx.translate(ship.position.x, ship.position.y);
-      ctx.rotate(ship.rotation);
+      ctx.translate(shipPose.x, shipPose.y);
+      ctx.rotate(shipPose.rotation);
       ctx.shadowColor = '#00ff00';
       ctx.shadowBlur = 10;
       ctx.strokeStyle = '#ffffff'; 
@@ -961,21 +1311,38 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       ctx.globalAlpha = 1.0;
 
       // Engine Exhaust
-      if (isThrusting) {
+      if (world.isThrusting) {
           ctx.strokeStyle = '#fbbf24';
           ctx.lineWidth = 3;
           ctx.shadowColor = '#fbbf24';
           ctx.shadowBlur = 15;
           ctx.beginPath();
-          ctx.moveTo(-22, 0); ctx.lineTo(-45 - Math.random()*15, 0);
-          ctx.moveTo(-21, -4); ctx.lineTo(-35 - Math.random()*10, -6);
-          ctx.moveTo(-21, 4); ctx.lineTo(-35 - Math.random()*10, 6);
+          ctx.moveTo(-22, 0); ctx.lineTo(-45 - fx()*15, 0);
+          ctx.moveTo(-21, -4); ctx.lineTo(-35 - fx()*10, -6);
+          ctx.moveTo(-21, 4); ctx.lineTo(-35 - fx()*10, 6);
           ctx.stroke();
       }
       ctx.restore();
 
 
       // --- HUD ---
+      // Reticle for gamepad aim and for the recorded aim in replays; the mouse has
+      // the crosshair cursor and touch aims under the finger
+      const reticle = liveInput
+          ? (controls.aimSource === 'PAD' ? liveInput.aim : null)
+          : playback.inputs[Math.max(0, world.tick - 1)]?.aim;
+      if (reticle) {
+          const reticleX = reticle.x - cameraRef.current.x;
+          const reticleY = reticle.y - cameraRef.current.y;
+          ctx.strokeStyle = '#00ff00';
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.arc(reticleX, reticleY, 10, 0, Math.PI*2);
+          ctx.moveTo(reticleX - 14, reticleY); ctx.lineTo(reticleX - 6, reticleY);
+          ctx.moveTo(reticleX + 6, reticleY); ctx.lineTo(reticleX + 14, reticleY);
+          ctx.stroke();
+      }
+
       const radarSize = 100;
       const radarX = width - radarSize - 20;
       const radarY = height - radarSize - 20;
@@ -990,11 +1357,12 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       ctx.stroke();
 
       // Radar Blips
-      const radarScale = radarSize / 2000;
-      asteroidsRef.current.forEach(ast => {
+      const radarRange = ship.shipConfig.radarRange;
+      const radarScale = radarSize / radarRange;
+      world.asteroidIndex.queryRadius(ship.position.x, ship.position.y, radarRange).forEach(ast => {
           const dx = ast.x - ship.position.x;
           const dy = ast.y - ship.position.y;
-          if (dx*dx + dy*dy < (2000*2000)) {
+          if (dx*dx + dy*dy < (radarRange*radarRange)) {
               const rx = radarX + dx * radarScale;
               const ry = radarY + dy * radarScale;
               const dist = Math.sqrt((rx-radarX)**2 + (ry-radarY)**2);
@@ -1004,34 +1372,78 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
               }
           }
       });
-      // Alien Blip
-      if (alienRef.current) {
-          const dx = alienRef.current.x - ship.position.x;
-          const dy = alienRef.current.y - ship.position.y;
-          if (dx*dx + dy*dy < (2000*2000)) {
+      // Alien Blips
+      world.aliens.forEach(alien => {
+          const dx = alien.x - ship.position.x;
+          const dy = alien.y - ship.position.y;
+          if (dx*dx + dy*dy < (radarRange*radarRange)) {
               const rx = radarX + dx * radarScale;
               const ry = radarY + dy * radarScale;
               const dist = Math.sqrt((rx-radarX)**2 + (ry-radarY)**2);
               if (dist < radarSize) {
-                  ctx.fillStyle = '#a855f7'; // Purple blip
-                  ctx.fillRect(rx-2, ry-2, 4, 4);
+                  const size = alien.kind === 'drone' ? 2 : 4;
+                  ctx.fillStyle = ENEMIES[alien.kind].colorBody;
+                  ctx.fillRect(rx - size/2, ry - size/2, size, size);
               }
           }
-      }
+      });
 
-      // Station/Player Blip
-      const stationDx = STATION_POSITION.x - ship.position.x;
-      const stationDy = STATION_POSITION.y - ship.position.y;
-      const sRx = radarX + stationDx * radarScale;
-      const sRy = radarY + stationDy * radarScale;
-      if (Math.sqrt((sRx-radarX)**2 + (sRy-radarY)**2) < radarSize) {
-          ctx.fillStyle = '#00ff00';
-          ctx.fillRect(sRx-3, sRy-3, 6, 6);
-      }
+      // Out of range markers get pinned to the rim as outlines so distant
+      // stations and objectives can still be found
+      const radarMarker = (x: number, y: number, color: string, size: number) => {
+          const rx = radarX + (x - ship.position.x) * radarScale;
+          const ry = radarY + (y - ship.position.y) * radarScale;
+          const rDist = Math.sqrt((rx-radarX)**2 + (ry-radarY)**2);
+          if (rDist < radarSize) {
+              ctx.fillStyle = color;
+              ctx.fillRect(rx - size/2, ry - size/2, size, size);
+          } else {
+              const edgeX = radarX + (rx - radarX) / rDist * (radarSize - 4);
+              const edgeY = radarY + (ry - radarY) / rDist * (radarSize - 4);
+              ctx.strokeStyle = color;
+              ctx.lineWidth = 1;
+              ctx.strokeRect(edgeX-2, edgeY-2, 4, 4);
+          }
+      };
+
+      // Objective, Pod and Station/Player Blips
+      world.contracts.forEach(contract => {
+          const target = contract.status === 'ACTIVE' ? contractTarget(contract) : null;
+          if (target) radarMarker(target.x, target.y, '#ffffff', 4);
+      });
+      world.pods.forEach(pod => radarMarker(pod.x, pod.y, '#fb923c', 4));
+      STATIONS.forEach(station => radarMarker(station.x, station.y, station.color, 6));
+      // Thieves running off with cargo or fuel stay tracked on the rim, flashing
+      const thieves = world.aliens
+          .filter(a => a.state === 'FLEEING' && (Object.keys(a.stolenCargo).length > 0 || a.stolenFuel > 0))
+          .sort((a, b) => a.warpTimer - b.warpTimer);
+      if (Math.floor(world.tick / 15) % 2 === 0) thieves.forEach(t => radarMarker(t.x, t.y, '#ef4444', 6));
+      const thief = thieves[0];
       ctx.fillStyle = '#fff';
       ctx.fillRect(radarX-1, radarY-1, 3, 3);
 
       // Gauges
+      ctx.textAlign = 'left';
+      const hullPct = Math.max(0, ship.hull / ship.maxHull);
+      const hullColor = hullPct < 0.3 ? '#ff0000' : '#f59e0b';
+      ctx.fillStyle = '#001100';
+      ctx.strokeStyle = hullColor;
+      ctx.lineWidth = 2;
+      ctx.fillRect(20, height - 120, 200, 14);
+      ctx.strokeRect(20, height - 120, 200, 14);
+      ctx.fillStyle = hullColor;
+      ctx.fillRect(22, height - 118, 196 * hullPct, 10);
+      ctx.font = '16px monospace';
+      ctx.fillText(`HULL: ${Math.ceil(ship.hull)} / ${ship.maxHull}`, 20, height - 125);
+
+      // Shield charge rides under the hull bar when a generator is fitted
+      if (ship.shipConfig.shieldCapacity > 0) {
+          ctx.fillStyle = '#001100';
+          ctx.fillRect(20, height - 104, 200, 4);
+          ctx.fillStyle = '#22d3ee';
+          ctx.fillRect(20, height - 104, 200 * (world.shield / ship.shipConfig.shieldCapacity), 4);
+      }
+
       const fuelPct = ship.currentFuel / ship.shipConfig.maxFuel;
       ctx.fillStyle = '#001100';
       ctx.strokeStyle = fuelPct < 0.2 ? '#ff0000' : '#00ff00';
@@ -1044,15 +1456,63 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
       ctx.fillStyle = '#00ff00';
       ctx.fillText(`FUEL: ${Math.floor(ship.currentFuel)}`, 20, height - 45);
       
-      const currentCargo = Object.values(ship.cargo).reduce((a,b) => a+b, 0);
+      // Weapon heat and torpedo tube, beside the fuel gauge
+      const heatPct = Math.min(1, world.heat / ship.shipConfig.heatCapacity);
+      const heatColor = world.overheated ? '#ef4444' : '#fde047';
+      ctx.fillStyle = '#001100';
+      ctx.strokeStyle = heatColor;
+      ctx.lineWidth = 2;
+      ctx.fillRect(240, height - 40, 120, 20);
+      ctx.strokeRect(240, height - 40, 120, 20);
+      ctx.fillStyle = heatColor;
+      ctx.fillRect(242, height - 38, 116 * heatPct, 16);
+      ctx.fillText(world.overheated ? 'OVERHEAT' : 'HEAT', 240, height - 45);
+      const torpedoWait = world.weaponCooldowns.torpedo;
+      ctx.fillStyle = torpedoWait > 0 ? '#7f1d1d' : WEAPONS.torpedo.color;
+      ctx.fillText(torpedoWait > 0 ? `TORP ${torpedoWait.toFixed(1)}s` : 'TORP READY', 240, height - 70);
+      ctx.fillStyle = '#00ff00';
+
+      const currentCargo = cargoTotal(ship.cargo);
       ctx.fillText(`CARGO: ${Math.floor(currentCargo)} / ${ship.shipConfig.maxCargo}`, 20, height - 70);
 
-      if (distToStation < DOCKING_RANGE) {
+      ctx.font = '12px monospace';
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#006600';
+      ctx.fillText(`SECTOR ${world.seed}`, 20, 30);
+
+      // Contract objectives
+      world.contracts.forEach((contract, i) => {
+          const minutes = Math.floor(contract.timeLeft / 60);
+          const seconds = Math.floor(contract.timeLeft % 60).toString().padStart(2, '0');
+          let status = `${minutes}:${seconds}`;
+          ctx.fillStyle = contract.timeLeft < 60 ? '#f59e0b' : '#00ff00';
+          if (contract.status === 'COMPLETE') { status = 'DONE - DOCK TO COLLECT'; ctx.fillStyle = '#22c55e'; }
+          if (contract.status === 'FAILED') { status = 'FAILED'; ctx.fillStyle = '#ef4444'; }
+          ctx.fillText(`> ${describeContract(contract)} [${status}]`, 20, 52 + i * 18);
+      });
+
+      if (thief) {
+          ctx.textAlign = 'center';
+          ctx.fillStyle = Math.floor(world.tick / 15) % 2 === 0 ? '#ef4444' : '#7f1d1d';
+          ctx.font = '18px monospace';
+          const haul = Object.keys(thief.stolenCargo).length > 0 ? 'CARGO' : 'FUEL';
+          ctx.fillText(`WARNING: THIEF ESCAPING WITH ${haul} // WARP IN ${Math.max(0, thief.warpTimer).toFixed(1)}s`, width/2, 60);
+      }
+
+      if (stationInRange) {
           ctx.textAlign = 'center';
           ctx.fillStyle = '#ffffff';
           ctx.font = '20px monospace';
-          if (speed < 0.5) ctx.fillText("DOCKING SEQUENCE INITIATED...", width/2, height - 100);
-          else ctx.fillText("REDUCE SPEED TO DOCK", width/2, height - 100);
+          if (speed < DOCKING_SPEED) ctx.fillText(`DOCKING AT ${stationInRange.name}...`, width/2, height - 100);
+          else {
+              const brakeBinding = controls.bindings.dock[0];
+              ctx.fillText(brakeBinding ? `REDUCE SPEED TO DOCK // HOLD ${describeBinding(brakeBinding)} TO BRAKE` : "REDUCE SPEED TO DOCK", width/2, height - 100);
+          }
+      }
+
+      if (gameState === GameState.MAP) {
+          const mapBinding = controls.bindings.map[0];
+          drawSectorMap(ctx, world, width, height, mapBinding ? describeBinding(mapBinding) : 'MAP');
       }
 
       animationFrameId = requestAnimationFrame(loop);
@@ -1060,14 +1520,38 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, onDock, onGam
 
     animationFrameId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animationFrameId);
-  }, [gameState, onDock, onGameOver, dimensions]); 
+  }, [gameState, dimensions, replay]); 
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={dimensions.width} 
-      height={dimensions.height} 
-      className="block bg-black cursor-crosshair"
-    />
+    <>
+      <canvas 
+        ref={canvasRef} 
+        width={dimensions.width} 
+        height={dimensions.height} 
+        className="block bg-black cursor-crosshair touch-none"
+      />
+      {showTouch && (gameState === GameState.PLAYING || (gameState === GameState.MAP && !replay)) && <TouchControls inputRef={inputRef} />}
+      {replay && gameState === GameState.REPLAY && (
+        <ReplayControls
+          tick={playbackView.tick}
+          length={playbackRef.current.inputs.length}
+          paused={playbackView.paused}
+          speed={playbackView.speed}
+          onTogglePause={() => {
+            const playback = playbackRef.current;
+            // Playing again from the end starts over
+            if (playback.paused && playbackView.tick >= playback.inputs.length) playback.seek = 0;
+            playback.paused = !playback.paused;
+            setPlaybackView(view => ({ ...view, paused: playback.paused }));
+          }}
+          onSetSpeed={speed => {
+            playbackRef.current.speed = speed;
+            setPlaybackView(view => ({ ...view, speed }));
+          }}
+          onSeek={tick => { playbackRef.current.seek = tick; }}
+          onExit={onExitReplay}
+        />
+      )}
+    </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface PauseMenuProps {
+  seed: string;
+  hardcore: boolean;
+  onResume: () => void;
+  onSettings: () => void;
+  onSave: () => void;
+  onQuit: () => void;
+}
+
+const MenuButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button
+    onClick={onClick}
+    className="w-full border border-green-600 hover:bg-green-600 hover:text-black px-4 py-2 tracking-widest transition-all"
+  >
+    {label}
+  </button>
+);
+
+export const PauseMenu: React.FC<PauseMenuProps> = ({ seed, hardcore, onResume, onSettings, onSave, onQuit }) => {
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 text-green-500 font-mono p-4 touch-targets">
+      <div className="w-full max-w-sm border-2 border-green-500 p-6 bg-black shadow-[0_0_20px_rgba(0,255,0,0.3)] rounded-lg text-center space-y-3">
+        <h1 className="text-3xl font-bold retro-glow mb-4">PAUSED</h1>
+        <MenuButton label="RESUME" onClick={onResume} />
+        <MenuButton label="SETTINGS" onClick={onSettings} />
+        <MenuButton label="SAVE" onClick={onSave} />
+        <button
+          onClick={onQuit}
+          className="w-full border border-red-800 text-red-600 hover:bg-red-900 px-4 py-2 tracking-widest transition-all"
+        >
+          QUIT TO TITLE
+        </button>
+        <p className="text-xs text-green-800 pt-2">SECTOR {seed}{hardcore && ' // HARDCORE'} // UNSAVED FLIGHT IS LOST ON QUIT</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { MarketState, MineralType } from '../types';
+import { MINERAL_VALUES, MINERAL_COLORS } from '../constants';
+import { priceOf } from '../sim/market';
+
+interface PriceChartProps {
+  market: MarketState;
+}
+
+const WIDTH = 320;
+const HEIGHT = 110;
+const MAX_RATIO = 2; // Top of the chart, as a multiple of base price
+
+// Every mineral on one axis, as a share of its base price, ending at the live price
+export const PriceChart: React.FC<PriceChartProps> = ({ market }) => {
+  const toY = (ratio: number) => HEIGHT - (Math.min(ratio, MAX_RATIO) / MAX_RATIO) * HEIGHT;
+  const baseY = toY(1);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-black border border-green-900">
+      <line x1={0} y1={baseY} x2={WIDTH} y2={baseY} stroke="#14532d" strokeDasharray="4 4" />
+      {(Object.values(MineralType) as MineralType[]).map(type => {
+        const prices = [...market.history[type], priceOf(market, type)];
+        const stepX = prices.length > 1 ? WIDTH / (prices.length - 1) : WIDTH;
+        const points = prices
+          .map((price, i) => `${(i * stepX).toFixed(1)},${toY(price / MINERAL_VALUES[type]).toFixed(1)}`)
+          .join(' ');
+        return <polyline key={type} points={points} fill="none" stroke={MINERAL_COLORS[type]} strokeWidth={1.5} />;
+      })}
+      <text x={4} y={baseY - 4} fill="#166534" fontSize={9}>BASE</text>
+    </svg>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { SIM_HZ } from '../constants';
+
+interface ReplayControlsProps {
+  tick: number;
+  length: number; // Ticks in the recording
+  paused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSetSpeed: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+const formatTime = (ticks: number) => {
+  const seconds = Math.floor(ticks / SIM_HZ);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ tick, length, paused, speed, onTogglePause, onSetSpeed, onSeek, onExit }) => {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 w-full max-w-2xl border border-green-700 bg-black/80 p-3 rounded font-mono text-green-500 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="text-red-500 retro-glow tracking-widest">REPLAY</span>
+        <button
+          onClick={onTogglePause}
+          className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 transition-all w-20"
+        >
+          {paused ? 'PLAY' : 'PAUSE'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={length}
+          value={tick}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="flex-1 accent-green-500"
+        />
+        <span className="w-28 text-right">{formatTime(tick)} / {formatTime(length)}</span>
+        <button onClick={onExit} className="text-green-700 hover:text-green-400">[ EXIT ]</button>
+      </div>
+      <div className="flex items-center gap-2 mt-2 text-xs">
+        <span className="text-green-700">SPEED</span>
+        {SPEEDS.map(option => (
+          <button
+            key={option}
+            onClick={() => onSetSpeed(option)}
+            className={`border px-2 py-0.5 ${option === speed ? 'border-green-400 text-green-300' : 'border-green-900 text-green-700 hover:text-green-400'}`}
+          >
+            {option}x
+          </button>
+        ))}
+        <span className="ml-auto text-green-700">TICK {tick}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { MineralType, RescueReport } from '../types';
+import { MINERAL_VALUES } from '../constants';
+
+interface RescueBillProps {
+  report: RescueReport;
+}
+
+const BillLine: React.FC<{ label: string; amount: string; className?: string }> = ({ label, amount, className = '' }) => (
+  <div className={`flex justify-between gap-8 ${className}`}>
+    <span>{label}</span>
+    <span>{amount}</span>
+  </div>
+);
+
+const describeOre = (ore: Partial<Record<MineralType, number>>) =>
+  (Object.keys(ore) as MineralType[]).map(type => `${type.toUpperCase()} x${Math.floor(ore[type]!)}`).join(', ');
+
+// Itemised rescue costs for the game over screen
+export const RescueBill: React.FC<RescueBillProps> = ({ report }) => {
+  const lost = Object.keys(report.cargoLost).length > 0;
+  const seized = Object.keys(report.cargoSeized).length > 0;
+  const seizedValue = (Object.keys(report.cargoSeized) as MineralType[])
+    .reduce((total, type) => total + report.cargoSeized[type]! * MINERAL_VALUES[type], 0);
+
+  return (
+    <div className="text-left font-mono text-sm text-red-300 border border-red-900 p-4 rounded space-y-1 max-w-md mx-auto">
+      <p className="text-red-500 mb-2">TOWED TO {report.station.name} // {(report.distance / 1000).toFixed(1)}km</p>
+      <BillLine label="TOW FEE" amount={`${report.towFee}cr`} />
+      {report.repairFee > 0 && <BillLine label="HULL REBUILD" amount={`${report.repairFee}cr`} />}
+      {lost && <BillLine label={`CARGO LOST: ${describeOre(report.cargoLost)}`} amount={`${Math.floor(report.cargoLostValue)}cr`} />}
+      {report.insurancePaid > 0 && (
+        <BillLine label="COVERED BY INSURANCE" amount={`-${Math.floor(report.insurancePaid)}cr`} className="text-green-400" />
+      )}
+      <div className="border-t border-red-900 pt-1 mt-2 space-y-1">
+        <BillLine label="CREDITS CHARGED" amount={`${Math.floor(report.charged)}cr`} className="text-yellow-500" />
+        {seized && <BillLine label={`ORE SEIZED: ${describeOre(report.cargoSeized)}`} amount={`${Math.floor(seizedValue)}cr`} className="text-yellow-500" />}
+        {report.writtenOff > 0 && <BillLine label="WRITTEN OFF" amount={`${Math.ceil(report.writtenOff)}cr`} className="text-gray-500" />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState, useRef } from 'react';
+import { SaveGame, SaveSlot } from '../types';
+import { SAVE_SLOTS, listSaves, writeSave, deleteSave, exportSave, importSave } from '../utils/save';
+import { findStation } from '../sim/world';
+
+interface SaveMenuProps {
+  current: SaveGame | null; // Null on the title screen: load only. Hardcore campaigns only autosave.
+  onLoad: (save: SaveGame) => void;
+  onClose: () => void;
+}
+
+const SLOT_LABELS: Record<SaveSlot, string> = {
+  'autosave': 'AUTOSAVE',
+  'slot-1': 'SLOT 1',
+  'slot-2': 'SLOT 2',
+  'slot-3': 'SLOT 3',
+};
+
+export const SaveMenu: React.FC<SaveMenuProps> = ({ current, onLoad, onClose }) => {
+  const [saves, setSaves] = useState(listSaves);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setSaves(listSaves());
+
+  // A copy of a hardcore campaign would outlive the ship, so there is only the autosave
+  const canKeep = (save: SaveGame | null) => save !== null && !save.hardcore;
+
+  const handleSave = (slot: SaveSlot) => {
+    if (!current || !canKeep(current)) return;
+    writeSave(slot, { ...current, savedAt: Date.now() });
+    refresh();
+  };
+
+  const handleDelete = (slot: SaveSlot) => {
+    deleteSave(slot);
+    refresh();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(await importSave(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 text-green-500 font-mono p-4">
+      <div className="w-full max-w-2xl border-2 border-green-500 p-6 bg-black shadow-[0_0_20px_rgba(0,255,0,0.3)] rounded-lg">
+        <div className="flex justify-between items-end border-b-2 border-green-800 pb-4 mb-6">
+          <h1 className="text-3xl font-bold retro-glow">FLIGHT LOG ARCHIVE</h1>
+          <button onClick={onClose} className="text-green-700 hover:text-green-400">[ CLOSE ]</button>
+        </div>
+
+        <div className="space-y-3">
+          {SAVE_SLOTS.map(slot => {
+            const save = saves[slot];
+            return (
+              <div key={slot} className="flex justify-between items-center border border-green-900 p-3 rounded bg-green-900/10">
+                <div>
+                  <h3 className="text-lg">{SLOT_LABELS[slot]}</h3>
+                  {save ? (
+                    <p className="text-xs text-gray-400">
+                      SECTOR {save.seed}{save.hardcore && ' // HARDCORE'} // {save.inFlight ? 'IN FLIGHT' : findStation(save.stationId).name} // {Math.floor(save.player.credits)}cr // {new Date(save.savedAt).toLocaleString()}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-600">-- EMPTY --</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {canKeep(current) && slot !== 'autosave' && (
+                    <button
+                      onClick={() => handleSave(slot)}
+                      className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-sm transition-all"
+                    >
+                      SAVE
+                    </button>
+                  )}
+                  <button
+                    onClick={() => save && onLoad(save)}
+                    disabled={!save}
+                    className="border border-yellow-500 text-yellow-500 hover:bg-yellow-500 hover:text-black px-3 py-1 text-sm transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-yellow-500"
+                  >
+                    LOAD
+                  </button>
+                  <button
+                    onClick={() => save && exportSave(save)}
+                    disabled={!canKeep(save)}
+                    className="border border-green-800 text-green-600 hover:bg-green-900 px-3 py-1 text-sm transition-all disabled:opacity-30"
+                  >
+                    EXPORT
+                  </button>
+                  <button
+                    onClick={() => handleDelete(slot)}
+                    disabled={!save}
+                    className="border border-red-800 text-red-600 hover:bg-red-900 px-3 py-1 text-sm transition-all disabled:opacity-30"
+                  >
+                    DEL
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="mt-4 text-red-500 text-sm">IMPORT FAILED: {error}</p>}
+        {current?.hardcore && <p className="mt-4 text-red-500 text-sm">HARDCORE // AUTOSAVE ONLY</p>}
+
+        <div className="mt-6 flex justify-center gap-4">
+          {current && canKeep(current) && (
+            <button
+              onClick={() => exportSave({ ...current, savedAt: Date.now() })}
+              className="border border-green-600 hover:bg-green-600 hover:text-black px-4 py-2 transition-all"
+            >
+              EXPORT CURRENT
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="border border-yellow-500 text-yellow-500 hover:bg-yellow-500 hover:text-black px-4 py-2 transition-all"
+          >
+            IMPORT FILE
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AudioBus, AudioSettings } from '../types';
+import { DEFAULT_AUDIO_SETTINGS } from '../constants';
+import { AUDIO_BUSES } from '../utils/audio';
+import { ControlsMenu } from './ControlsMenu';
+
+interface SettingsMenuProps {
+  audio: AudioSettings;
+  onAudioChange: (settings: AudioSettings) => void;
+  onClose: () => void;
+}
+
+const BUS_LABELS: Record<AudioBus, string> = {
+  master: 'MASTER',
+  sfx: 'EFFECTS',
+  engine: 'ENGINE',
+  alerts: 'ALERTS',
+  music: 'MUSIC',
+};
+
+export const SettingsMenu: React.FC<SettingsMenuProps> = ({ audio, onAudioChange, onClose }) => {
+  const [showControls, setShowControls] = useState(false);
+
+  const setBus = (bus: AudioBus, change: Partial<AudioSettings[AudioBus]>) => {
+    onAudioChange({ ...audio, [bus]: { ...audio[bus], ...change } });
+  };
+
+  if (showControls) return <ControlsMenu onClose={() => setShowControls(false)} />;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 text-green-500 font-mono p-4">
+      <div className="w-full max-w-2xl border-2 border-green-500 p-6 bg-black shadow-[0_0_20px_rgba(0,255,0,0.3)] rounded-lg">
+        <div className="flex justify-between items-end border-b-2 border-green-800 pb-4 mb-6">
+          <h1 className="text-3xl font-bold retro-glow">SETTINGS</h1>
+          <button onClick={onClose} className="text-green-700 hover:text-green-400">[ CLOSE ]</button>
+        </div>
+
+        <h2 className="text-lg mb-2">AUDIO MIXER</h2>
+        <div className="space-y-2">
+          {AUDIO_BUSES.map(bus => (
+            <div key={bus} className="flex items-center gap-4 border border-green-900 p-2 rounded bg-green-900/10">
+              <h3 className="w-24 shrink-0">{BUS_LABELS[bus]}</h3>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(audio[bus].volume * 100)}
+                onChange={e => setBus(bus, { volume: Number(e.target.value) / 100 })}
+                disabled={audio[bus].muted}
+                className="flex-1 accent-green-500 disabled:opacity-30"
+              />
+              <span className="w-12 text-right text-sm">{Math.round(audio[bus].volume * 100)}%</span>
+              <button
+                onClick={() => setBus(bus, { muted: !audio[bus].muted })}
+                className={`border px-3 py-1 text-xs w-20 transition-all ${audio[bus].muted ? 'border-red-700 text-red-500' : 'border-green-600 hover:bg-green-600 hover:text-black'}`}
+              >
+                {audio[bus].muted ? 'MUTED' : 'MUTE'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center mt-6 border-t-2 border-green-800 pt-4">
+          <button
+            onClick={() => setShowControls(true)}
+            className="border border-green-600 hover:bg-green-600 hover:text-black px-4 py-2 text-sm transition-all"
+          >
+            FLIGHT CONTROLS
+          </button>
+          <button
+            onClick={() => onAudioChange(DEFAULT_AUDIO_SETTINGS)}
+            className="border border-amber-700 text-amber-500 hover:bg-amber-700 hover:text-black px-4 py-2 text-sm transition-all"
+          >
+            RESET AUDIO
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
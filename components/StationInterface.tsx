@@ -1,43 +1,104 @@
-import React from 'react';
-import { PlayerState, MineralType, GameState } from '../types';
-import { MINERAL_VALUES, MINERAL_COLORS, INITIAL_SHIP_CONFIG, UPGRADE_COST_BASE, UPGRADE_COST_MULTIPLIER } from '../constants';
+import React, { useState } from 'react';
+import { PlayerState, MineralType, MarketState, Station, StationService, ContractBoard } from '../types';
+import { MINERAL_VALUES, MINERAL_COLORS, REPAIR_COST_PER_HULL, STATIONS, CONTRACTS, UPGRADES, RESCUE } from '../constants';
+import { cargoTotal } from '../sim/world';
+import { priceOf, quoteSale, applySale, activeEvent } from '../sim/market';
+import { describeContract, acceptContract, abandonContract, settleContracts } from '../sim/contracts';
+import { buyInsurance } from '../sim/rescue';
+import {
+  upgradeCost,
+  refundValue,
+  respecValue,
+  missingRequirements,
+  blockingDependents,
+  buyUpgrade,
+  previewUpgrade,
+  refundUpgrade,
+  respecUpgrades
+} from '../sim/upgrades';
+import { PriceChart } from './PriceChart';
+import { FittingPanel } from './FittingPanel';
 
 interface StationInterfaceProps {
+  station: Station; // Where the ship is docked; decides prices and which services are on offer
   playerState: PlayerState;
   setPlayerState: React.Dispatch<React.SetStateAction<PlayerState>>;
+  market: MarketState;
+  setMarket: React.Dispatch<React.SetStateAction<MarketState>>;
+  contracts: ContractBoard;
+  setContracts: React.Dispatch<React.SetStateAction<ContractBoard>>;
   onLaunch: () => void;
+  onOpenSaves: () => void;
+  onOpenSettings: () => void;
+  onExportReplay: (() => void) | null; // Null before the first flight
+  hardcore: boolean; // No rescue, so no insurance to sell
 }
 
-export const StationInterface: React.FC<StationInterfaceProps> = ({ playerState, setPlayerState, onLaunch }) => {
+export const StationInterface: React.FC<StationInterfaceProps> = ({ station, playerState, setPlayerState, market, setMarket, contracts, setContracts, onLaunch, onOpenSaves, onOpenSettings, onExportReplay, hardcore }) => {
+  // Units queued for sale per mineral; defaults to the whole hold
+  const [quantities, setQuantities] = useState<PlayerState['cargo']>(() => ({ ...playerState.cargo }));
 
-  const calculateUpgradeCost = (level: number) => {
-    return Math.floor(UPGRADE_COST_BASE * Math.pow(UPGRADE_COST_MULTIPLIER, level));
+  const hasService = (service: StationService) => station.services.includes(service);
+
+  const quantityFor = (type: MineralType) => Math.min(quantities[type], Math.floor(playerState.cargo[type]));
+
+  const setQuantity = (type: MineralType, amount: number) => {
+    const held = Math.floor(playerState.cargo[type]);
+    setQuantities(prev => ({ ...prev, [type]: Math.max(0, Math.min(held, amount)) }));
   };
 
-  // Simple level calculation based on current stat vs initial stat (simplified logic)
-  const getLevel = (current: number, initial: number, step: number) => {
-    return Math.round((current - initial) / step);
+  // Each unit sold pushes that mineral's price down, so big sales pay less per unit
+  const sellMineral = (type: MineralType, amount: number) => {
+    const buyFactor = station.buyPrices[type];
+    if (amount <= 0 || buyFactor === undefined) return;
+    const value = quoteSale(market, type, amount, buyFactor);
+    setPlayerState(prev => ({
+      ...prev,
+      credits: prev.credits + value,
+      cargo: { ...prev.cargo, [type]: prev.cargo[type] - amount }
+    }));
+    setMarket(prev => applySale(prev, type, amount));
   };
 
   const sellAll = () => {
     let totalValue = 0;
+    let nextMarket = market;
     const newCargo = { ...playerState.cargo };
     (Object.keys(newCargo) as MineralType[]).forEach(type => {
-      totalValue += newCargo[type] * MINERAL_VALUES[type];
-      newCargo[type] = 0;
+      const buyFactor = station.buyPrices[type];
+      if (buyFactor === undefined) return; // Stays in the hold
+      const amount = Math.floor(newCargo[type]);
+      totalValue += quoteSale(nextMarket, type, amount, buyFactor);
+      nextMarket = applySale(nextMarket, type, amount);
+      newCargo[type] -= amount;
     });
 
     setPlayerState(prev => ({
       ...prev,
       credits: prev.credits + totalValue,
-      cargo: newCargo,
-      currentFuel: prev.shipConfig.maxFuel // Refuel on dock logic? Or make it paid? Let's make refuel paid but cheap.
+      cargo: newCargo
     }));
+    setMarket(nextMarket);
   };
 
+  // Deliveries accepted here can be handed over without flying out and back
+  const deliverContracts = () => {
+    const settled = settleContracts(contracts, playerState, station);
+    setPlayerState(settled.player);
+    setContracts(settled.board);
+  };
+
+  const abandon = (id: string) => {
+    const result = abandonContract(contracts, playerState, id);
+    setPlayerState(result.player);
+    setContracts(result.board);
+  };
+
+  const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
   const refuel = () => {
     const fuelNeeded = playerState.shipConfig.maxFuel - playerState.currentFuel;
-    const cost = Math.ceil(fuelNeeded * 0.1); // 0.1 credit per fuel unit
+    const cost = Math.ceil(fuelNeeded * station.fuelPrice);
 
     if (playerState.credits >= cost) {
       setPlayerState(prev => ({
@@ -47,7 +108,7 @@ export const StationInterface: React.FC<StationInterfaceProps> = ({ playerState,
       }));
     } else {
       // Partial refuel
-      const fuelAffordable = Math.floor(playerState.credits / 0.1);
+      const fuelAffordable = Math.floor(playerState.credits / station.fuelPrice);
       setPlayerState(prev => ({
         ...prev,
         credits: 0,
@@ -56,43 +117,53 @@ export const StationInterface: React.FC<StationInterfaceProps> = ({ playerState,
     }
   };
 
-  const upgradeStat = (statKey: keyof typeof INITIAL_SHIP_CONFIG, step: number, cost: number) => {
+  const repairHull = () => {
+    const damage = playerState.maxHull - playerState.hull;
+    const cost = Math.ceil(damage * REPAIR_COST_PER_HULL);
+
     if (playerState.credits >= cost) {
       setPlayerState(prev => ({
         ...prev,
         credits: prev.credits - cost,
-        shipConfig: {
-          ...prev.shipConfig,
-          [statKey]: prev.shipConfig[statKey as keyof typeof INITIAL_SHIP_CONFIG] + step
-        }
+        hull: prev.maxHull
+      }));
+    } else {
+      // Partial repair
+      const hullAffordable = Math.floor(playerState.credits / REPAIR_COST_PER_HULL);
+      setPlayerState(prev => ({
+        ...prev,
+        credits: prev.credits - hullAffordable * REPAIR_COST_PER_HULL,
+        hull: prev.hull + hullAffordable
       }));
     }
   };
 
-  // Derived levels for display
-  const engineLevel = getLevel(playerState.shipConfig.acceleration, INITIAL_SHIP_CONFIG.acceleration, 0.02);
-  const cargoLevel = getLevel(playerState.shipConfig.maxCargo, INITIAL_SHIP_CONFIG.maxCargo, 10);
-  const laserLevel = getLevel(playerState.shipConfig.miningPower, INITIAL_SHIP_CONFIG.miningPower, 0.5);
-  const fuelLevel = getLevel(playerState.shipConfig.maxFuel, INITIAL_SHIP_CONFIG.maxFuel, 200);
-
-  const engineCost = calculateUpgradeCost(engineLevel);
-  const cargoCost = calculateUpgradeCost(cargoLevel);
-  const laserCost = calculateUpgradeCost(laserLevel);
-  const fuelCost = calculateUpgradeCost(fuelLevel);
+  const formatStat = (value: number) => Number.isInteger(value) ? `${value}` : value.toFixed(1);
+  const tiers = [...new Set(UPGRADES.map(def => def.tier))].sort((a, b) => a - b);
+  const respecRefund = respecValue(playerState.upgrades);
 
   const fuelMissing = playerState.shipConfig.maxFuel - playerState.currentFuel;
-  const refuelCost = Math.ceil(fuelMissing * 0.1);
+  const refuelCost = Math.ceil(fuelMissing * station.fuelPrice);
+
+  const hullDamage = playerState.maxHull - playerState.hull;
+  const repairCost = Math.ceil(hullDamage * REPAIR_COST_PER_HULL);
 
-  const totalCargoCount = Object.values(playerState.cargo).reduce((a, b) => a + b, 0);
+  const totalCargoCount = cargoTotal(playerState.cargo);
+  const sellableCount = (Object.keys(playerState.cargo) as MineralType[])
+    .filter(type => station.buyPrices[type] !== undefined)
+    .reduce((sum, type) => sum + Math.floor(playerState.cargo[type]), 0);
+  const event = activeEvent(market);
+  const deliverable = contracts.active.some(c =>
+    c.objective.kind === 'DELIVERY' && c.issuerId === station.id && playerState.cargo[c.objective.mineral] >= c.objective.amount);
 
   return (
-    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/90 text-green-500 font-mono p-4">
-      <div className="w-full max-w-4xl border-2 border-green-500 p-6 bg-black shadow-[0_0_20px_rgba(0,255,0,0.3)] rounded-lg relative">
+    <div className="touch-targets absolute inset-0 z-40 flex justify-center overflow-y-auto bg-black/90 text-green-500 font-mono p-4">
+      <div className="w-full max-w-4xl my-auto border-2 border-green-500 p-6 bg-black shadow-[0_0_20px_rgba(0,255,0,0.3)] rounded-lg relative">
         {/* Header */}
         <div className="flex justify-between items-end border-b-2 border-green-800 pb-4 mb-6">
           <div>
-            <h1 className="text-4xl font-bold retro-glow">RETRO-ROCKET STATION</h1>
-            <p className="text-sm opacity-80">DOCKING BAY 94 // WELCOME PROSPECTOR</p>
+            <h1 className="text-4xl font-bold retro-glow">{station.name}</h1>
+            <p className="text-sm opacity-80">{station.tagline}</p>
           </div>
           <div className="text-right">
             <p className="text-2xl text-yellow-400 retro-glow-amber">CREDITS: {Math.floor(playerState.credits)}</p>
@@ -103,30 +174,124 @@ export const StationInterface: React.FC<StationInterfaceProps> = ({ playerState,
           {/* Left Column: Market & Status */}
           <div className="space-y-6">
             
-            {/* Cargo Manifest */}
+            {/* Commodity Market */}
+            {hasService('MARKET') ? (
             <div className="border border-green-900 p-4 rounded bg-green-900/10">
-              <h2 className="text-xl mb-4 border-b border-green-800 inline-block">CARGO MANIFEST</h2>
+              <h2 className="text-xl mb-4 border-b border-green-800 inline-block">COMMODITY MARKET</h2>
+              {event && (
+                <div className="mb-3 border border-amber-600 text-amber-400 px-2 py-1 text-xs">
+                  <span className="font-bold">{event.name}</span> // {event.description}
+                </div>
+              )}
               <div className="space-y-2">
-                {(Object.keys(playerState.cargo) as MineralType[]).map(type => (
-                  <div key={type} className="flex justify-between items-center">
-                    <span style={{ color: MINERAL_COLORS[type] }}>{type}</span>
-                    <span>{Math.floor(playerState.cargo[type])} units</span>
-                  </div>
-                ))}
+                {(Object.keys(playerState.cargo) as MineralType[]).map(type => {
+                  const held = Math.floor(playerState.cargo[type]);
+                  const amount = quantityFor(type);
+                  const buyFactor = station.buyPrices[type];
+                  if (buyFactor === undefined) {
+                    return (
+                      <div key={type} className="flex justify-between items-center gap-2 text-sm">
+                        <div className="w-32">
+                          <span style={{ color: MINERAL_COLORS[type] }}>{type}</span>
+                          <p className="text-xs text-gray-400">{held} units</p>
+                        </div>
+                        <span className="text-xs text-gray-500">NO BUYER AT THIS STATION</span>
+                      </div>
+                    );
+                  }
+                  const price = priceOf(market, type, buyFactor);
+                  return (
+                    <div key={type} className="flex justify-between items-center gap-2 text-sm">
+                      <div className="w-32">
+                        <span style={{ color: MINERAL_COLORS[type] }}>{type}</span>
+                        <p className="text-xs text-gray-400">{held} units</p>
+                      </div>
+                      <span className={price < MINERAL_VALUES[type] ? 'text-red-400' : price > MINERAL_VALUES[type] ? 'text-green-300' : ''}>
+                        {price}cr
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => setQuantity(type, amount - 1)} disabled={amount <= 0} className="border border-green-800 px-2 disabled:opacity-30">-</button>
+                        <span className="w-8 text-center">{amount}</span>
+                        <button onClick={() => setQuantity(type, amount + 1)} disabled={amount >= held} className="border border-green-800 px-2 disabled:opacity-30">+</button>
+                        <button onClick={() => setQuantity(type, held)} disabled={amount >= held} className="border border-green-800 px-1 text-xs disabled:opacity-30">MAX</button>
+                      </div>
+                      <button
+                        onClick={() => sellMineral(type, amount)}
+                        disabled={amount <= 0}
+                        className="bg-green-900 hover:bg-green-700 text-white px-2 py-1 text-xs w-24 disabled:opacity-50"
+                      >
+                        SELL {amount > 0 ? `${quoteSale(market, type, amount, buyFactor)}cr` : ''}
+                      </button>
+                    </div>
+                  );
+                })}
                 <div className="mt-4 pt-2 border-t border-green-800 flex justify-between text-yellow-400">
                   <span>CAPACITY: {Math.floor(totalCargoCount)} / {playerState.shipConfig.maxCargo}</span>
                   <button 
                     onClick={sellAll}
-                    disabled={totalCargoCount === 0}
+                    disabled={sellableCount < 1}
                     className="bg-green-900 hover:bg-green-700 text-white px-3 py-1 text-xs uppercase tracking-wider disabled:opacity-50"
                   >
                     Sell All Cargo
                   </button>
                 </div>
+                <div className="pt-2">
+                  <p className="text-xs text-gray-400 mb-1">PRICE HISTORY // LAST {market.history[MineralType.IRON].length} VISITS</p>
+                  <PriceChart market={market} />
+                </div>
               </div>
             </div>
+            ) : (
+            <div className="border border-green-900 p-4 rounded bg-green-900/10 flex justify-between">
+              <span>CAPACITY: {Math.floor(totalCargoCount)} / {playerState.shipConfig.maxCargo}</span>
+              <span className="text-gray-500">NO TRADING POST</span>
+            </div>
+            )}
+
+            {/* Repair */}
+            {hasService('REPAIR') && (
+            <div className="border border-green-900 p-4 rounded bg-green-900/10 flex justify-between items-center">
+              <div>
+                <h2 className="text-xl">HULL INTEGRITY</h2>
+                <div className="w-full bg-gray-800 h-2 mt-2 rounded-full overflow-hidden">
+                  <div 
+                    className={`${playerState.hull / playerState.maxHull < 0.3 ? 'bg-red-500' : 'bg-amber-500'} h-full`}
+                    style={{ width: `${(playerState.hull / playerState.maxHull) * 100}%` }}
+                  ></div>
+                </div>
+                <p className="text-xs mt-1 text-gray-400">{Math.ceil(playerState.hull)} / {playerState.maxHull}</p>
+              </div>
+              <button 
+                onClick={repairHull}
+                disabled={hullDamage < 1 || playerState.credits < REPAIR_COST_PER_HULL}
+                className="border border-amber-500 text-amber-500 hover:bg-amber-500 hover:text-black px-4 py-2 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                REPAIR ({repairCost}cr)
+              </button>
+            </div>
+            )}
+
+            {/* Insurance: the repair yard also underwrites rescue policies */}
+            {hasService('REPAIR') && !hardcore && (
+            <div className="border border-green-900 p-4 rounded bg-green-900/10 flex justify-between items-center">
+              <div>
+                <h2 className="text-xl">SALVAGE INSURANCE</h2>
+                <p className="text-xs mt-1 text-gray-400">
+                  {playerState.insured ? 'POLICY ACTIVE // COVERS YOUR NEXT RESCUE' : 'COVERS TOW, HULL AND LOST CARGO FOR ONE RESCUE'}
+                </p>
+              </div>
+              <button
+                onClick={() => setPlayerState(buyInsurance)}
+                disabled={playerState.insured || playerState.credits < RESCUE.INSURANCE_PREMIUM}
+                className="border border-cyan-500 text-cyan-500 hover:bg-cyan-500 hover:text-black px-4 py-2 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {playerState.insured ? 'INSURED' : `BUY POLICY (${RESCUE.INSURANCE_PREMIUM}cr)`}
+              </button>
+            </div>
+            )}
 
             {/* Refuel */}
+            {hasService('REFUEL') && (
             <div className="border border-green-900 p-4 rounded bg-green-900/10 flex justify-between items-center">
               <div>
                 <h2 className="text-xl">FUEL SYSTEMS</h2>
@@ -146,84 +311,167 @@ export const StationInterface: React.FC<StationInterfaceProps> = ({ playerState,
                 REFUEL ({refuelCost}cr)
               </button>
             </div>
+            )}
 
           </div>
 
           {/* Right Column: Engineering */}
+          {hasService('SHIPYARD') ? (
           <div className="border border-green-900 p-4 rounded bg-green-900/10">
              <h2 className="text-xl mb-4 border-b border-green-800 inline-block">ENGINEERING / UPGRADES</h2>
              <div className="space-y-4">
-               
-               {/* Engine */}
-               <div className="flex justify-between items-center group">
-                 <div>
-                   <h3 className="text-lg">ION THRUSTERS</h3>
-                   <p className="text-xs text-gray-400">Increase acceleration & top speed.</p>
-                   <p className="text-xs text-green-400">Lvl {engineLevel + 1}</p>
+               {tiers.map(tier => (
+                 <div key={tier} className="space-y-3">
+                   <p className="text-xs text-green-700 tracking-widest">TIER {tier}</p>
+                   {UPGRADES.filter(def => def.tier === tier).map(def => {
+                     const level = playerState.upgrades[def.id];
+                     const maxed = level >= def.maxLevel;
+                     const cost = upgradeCost(def, level);
+                     const missing = missingRequirements(def, playerState.upgrades);
+                     const blockers = blockingDependents(def, playerState.upgrades);
+                     const current = playerState.shipConfig[def.stat];
+                     return (
+                       <div key={def.id} className="flex justify-between items-center gap-2">
+                         <div>
+                           <h3 className="text-lg">{def.name}</h3>
+                           <p className="text-xs text-gray-400">{def.description}</p>
+                           {missing.length > 0 ? (
+                             <p className="text-xs text-red-500">REQUIRES {missing.join(', ')}</p>
+                           ) : (
+                             <p className="text-xs text-green-400">
+                               Lvl {level}/{def.maxLevel} // {formatStat(current)}{!maxed && ` > ${formatStat(previewUpgrade(playerState, def.id)[def.stat])}`}
+                             </p>
+                           )}
+                         </div>
+                         <div className="flex flex-col gap-1 items-end">
+                           <button 
+                              onClick={() => setPlayerState(prev => buyUpgrade(prev, def.id))}
+                              disabled={maxed || missing.length > 0 || playerState.credits < cost}
+                              className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-sm transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
+                           >
+                             {maxed ? 'MAXED' : `INSTALL (${cost}cr)`}
+                           </button>
+                           {level > 0 && (
+                             <button
+                               onClick={() => setPlayerState(prev => refundUpgrade(prev, def.id))}
+                               disabled={blockers.length > 0}
+                               title={blockers.length > 0 ? `Needed by ${blockers.join(', ')}` : undefined}
+                               className="text-xs text-amber-600 hover:text-amber-400 disabled:opacity-30"
+                             >
+                               REFUND (+{refundValue(def, level)}cr)
+                             </button>
+                           )}
+                         </div>
+                       </div>
+                     );
+                   })}
                  </div>
-                 <button 
-                    onClick={() => upgradeStat('acceleration', 0.02, engineCost)}
-                    disabled={playerState.credits < engineCost}
-                    className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-sm transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
-                 >
-                   INSTALL ({engineCost}cr)
-                 </button>
-               </div>
+               ))}
 
-               {/* Cargo */}
-               <div className="flex justify-between items-center group">
-                 <div>
-                   <h3 className="text-lg">CARGO HOLD</h3>
-                   <p className="text-xs text-gray-400">Increase storage capacity.</p>
-                   <p className="text-xs text-green-400">Lvl {cargoLevel + 1}</p>
-                 </div>
-                 <button 
-                    onClick={() => upgradeStat('maxCargo', 10, cargoCost)}
-                    disabled={playerState.credits < cargoCost}
-                    className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-sm transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
+               <div className="pt-2 border-t border-green-800 flex justify-end">
+                 <button
+                   onClick={() => setPlayerState(prev => respecUpgrades(prev))}
+                   disabled={respecRefund <= 0}
+                   className="border border-amber-600 text-amber-500 hover:bg-amber-600 hover:text-black px-3 py-1 text-xs transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-amber-500"
                  >
-                   EXPAND ({cargoCost}cr)
-                 </button>
-               </div>
-
-               {/* Laser */}
-               <div className="flex justify-between items-center group">
-                 <div>
-                   <h3 className="text-lg">FOCAL LENS</h3>
-                   <p className="text-xs text-gray-400">Faster mining speed.</p>
-                   <p className="text-xs text-green-400">Lvl {laserLevel + 1}</p>
-                 </div>
-                 <button 
-                    onClick={() => upgradeStat('miningPower', 0.5, laserCost)}
-                    disabled={playerState.credits < laserCost}
-                    className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-sm transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
-                 >
-                   CALIBRATE ({laserCost}cr)
+                   RESPEC ALL (+{respecRefund}cr)
                  </button>
                </div>
+             </div>
+          </div>
+          ) : (
+          <div className="border border-green-900 p-4 rounded bg-green-900/10 flex items-center justify-center text-gray-500">
+            NO SHIPYARD // UPGRADES AT {STATIONS.filter(s => s.services.includes('SHIPYARD')).map(s => s.name).join(', ')}
+          </div>
+          )}
+        </div>
 
-                {/* Tank */}
-               <div className="flex justify-between items-center group">
-                 <div>
-                   <h3 className="text-lg">FUEL CELLS</h3>
-                   <p className="text-xs text-gray-400">Increase max fuel capacity.</p>
-                   <p className="text-xs text-green-400">Lvl {fuelLevel + 1}</p>
-                 </div>
-                 <button 
-                    onClick={() => upgradeStat('maxFuel', 200, fuelCost)}
-                    disabled={playerState.credits < fuelCost}
-                    className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-sm transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
-                 >
-                   UPGRADE ({fuelCost}cr)
-                 </button>
-               </div>
+        {hasService('SHIPYARD') && <FittingPanel playerState={playerState} setPlayerState={setPlayerState} />}
 
-             </div>
+        {/* Contract Board */}
+        <div className="mt-8 border border-green-900 p-4 rounded bg-green-900/10 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+          <div>
+            <h2 className="text-xl mb-3 border-b border-green-800 inline-block">CONTRACT BOARD</h2>
+            <div className="space-y-2">
+              {contracts.offers.length === 0 && <p className="text-gray-500">-- NO WORK POSTED --</p>}
+              {contracts.offers.map(contract => (
+                <div key={contract.id} className="flex justify-between items-center gap-2">
+                  <div>
+                    <p>{describeContract(contract)}</p>
+                    <p className="text-xs text-gray-400">
+                      PAYS {contract.reward}cr // PENALTY {contract.penalty}cr // {formatTime(contract.timeLimit)} FLIGHT TIME
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setContracts(prev => acceptContract(prev, contract.id))}
+                    disabled={contracts.active.length >= CONTRACTS.MAX_ACTIVE}
+                    className="border border-green-600 hover:bg-green-600 hover:text-black px-3 py-1 text-xs transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-green-600"
+                  >
+                    ACCEPT
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h2 className="text-xl mb-3 border-b border-green-800 inline-block">
+              ACTIVE ({contracts.active.length}/{CONTRACTS.MAX_ACTIVE})
+            </h2>
+            <div className="space-y-2">
+              {contracts.active.length === 0 && <p className="text-gray-500">-- NONE --</p>}
+              {contracts.active.map(contract => (
+                <div key={contract.id} className="flex justify-between items-center gap-2">
+                  <div>
+                    <p>{describeContract(contract)}</p>
+                    <p className="text-xs text-gray-400">{contract.reward}cr // {formatTime(contract.timeLeft)} LEFT</p>
+                  </div>
+                  <button
+                    onClick={() => abandon(contract.id)}
+                    className="border border-red-700 text-red-500 hover:bg-red-700 hover:text-black px-3 py-1 text-xs transition-all"
+                  >
+                    ABANDON (-{contract.penalty}cr)
+                  </button>
+                </div>
+              ))}
+              {deliverable && (
+                <button
+                  onClick={deliverContracts}
+                  className="bg-green-900 hover:bg-green-700 text-white px-3 py-1 text-xs uppercase tracking-wider"
+                >
+                  Hand Over Deliveries
+                </button>
+              )}
+              {contracts.log.map(contract => (
+                <p key={contract.id} className={`text-xs ${contract.status === 'COMPLETE' ? 'text-green-700' : 'text-red-800'}`}>
+                  {contract.status === 'COMPLETE' ? `PAID ${contract.reward}cr` : `FINED ${contract.penalty}cr`} // {describeContract(contract)}
+                </p>
+              ))}
+            </div>
           </div>
         </div>
 
         {/* Footer Actions */}
-        <div className="mt-8 flex justify-center">
+        <div className="mt-8 flex justify-center items-center gap-6">
+          <button
+            onClick={onOpenSaves}
+            className="border border-green-700 text-green-500 px-6 py-3 rounded hover:bg-green-900 transition-all"
+          >
+            FLIGHT LOG
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="border border-green-700 text-green-500 px-6 py-3 rounded hover:bg-green-900 transition-all"
+          >
+            SETTINGS
+          </button>
+          {onExportReplay && (
+            <button
+              onClick={onExportReplay}
+              className="border border-green-700 text-green-500 px-6 py-3 rounded hover:bg-green-900 transition-all"
+            >
+              EXPORT REPLAY
+            </button>
+          )}
           <button 
             onClick={onLaunch}
             className="bg-green-600 text-black text-xl font-bold px-12 py-3 rounded hover:bg-white hover:shadow-[0_0_15px_#fff] transition-all transform hover:scale-105"
@@ -0,0 +1,103 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { InputAction } from '../types';
+import { INPUT } from '../constants';
+import { InputManager } from '../utils/input';
+
+interface TouchControlsProps {
+  inputRef: React.MutableRefObject<InputManager | null>;
+}
+
+const BUTTONS: { action: InputAction; label: string }[] = [
+  { action: 'shootSecondary', label: 'TORP' },
+  { action: 'map', label: 'MAP' },
+  { action: 'pause', label: 'PAUSE' },
+];
+
+// On-screen stick and buttons for touch screens. The stick steers: sideways
+// rotates, up thrusts, down fires the docking brake. Aiming and firing happen
+// by holding a finger on the canvas itself.
+export const TouchControls: React.FC<TouchControlsProps> = ({ inputRef }) => {
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const stickTouchRef = useRef<number | null>(null);
+  const centreRef = useRef({ x: 0, y: 0 });
+
+  const moveStick = (clientX: number, clientY: number) => {
+    let x = (clientX - centreRef.current.x) / INPUT.TOUCH_STICK_RADIUS;
+    let y = (clientY - centreRef.current.y) / INPUT.TOUCH_STICK_RADIUS;
+    const length = Math.sqrt(x*x + y*y);
+    if (length > 1) {
+      x /= length;
+      y /= length;
+    }
+    setKnob({ x, y });
+
+    const input = inputRef.current;
+    if (!input) return;
+    const deflect = (value: number) => Math.max(0, (value - INPUT.STICK_DEADZONE) / (1 - INPUT.STICK_DEADZONE));
+    input.setVirtual('rotateLeft', deflect(-x));
+    input.setVirtual('rotateRight', deflect(x));
+    input.setVirtual('thrust', deflect(-y));
+    input.setVirtual('dock', deflect(y));
+  };
+
+  const handleStickStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    const touch = e.changedTouches[0];
+    if (stickTouchRef.current !== null || !touch) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    centreRef.current = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    stickTouchRef.current = touch.identifier;
+    moveStick(touch.clientX, touch.clientY);
+  };
+
+  const handleStickMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    const touch = Array.from<Touch>(e.changedTouches).find(t => t.identifier === stickTouchRef.current);
+    if (touch) moveStick(touch.clientX, touch.clientY);
+  };
+
+  const handleStickEnd = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (!Array.from<Touch>(e.changedTouches).some(t => t.identifier === stickTouchRef.current)) return;
+    stickTouchRef.current = null;
+    moveStick(centreRef.current.x, centreRef.current.y);
+  };
+
+  // Nothing stays pressed once the controls go away, e.g. on docking
+  useEffect(() => () => {
+    const input = inputRef.current;
+    (['rotateLeft', 'rotateRight', 'thrust', 'dock', ...BUTTONS.map(b => b.action)] as InputAction[])
+      .forEach(action => input?.setVirtual(action, 0));
+  }, [inputRef]);
+
+  const size = INPUT.TOUCH_STICK_RADIUS * 2;
+
+  return (
+    <>
+      <div
+        onTouchStart={handleStickStart}
+        onTouchMove={handleStickMove}
+        onTouchEnd={handleStickEnd}
+        onTouchCancel={handleStickEnd}
+        style={{ width: size, height: size }}
+        className="absolute left-8 bottom-40 z-40 rounded-full border-2 border-green-700 bg-green-900/20 touch-none select-none"
+      >
+        <div
+          style={{ transform: `translate(${knob.x * INPUT.TOUCH_STICK_RADIUS}px, ${knob.y * INPUT.TOUCH_STICK_RADIUS}px)` }}
+          className="absolute inset-0 m-auto w-12 h-12 rounded-full border-2 border-green-400 bg-green-500/30 pointer-events-none"
+        />
+      </div>
+
+      <div className="absolute right-8 bottom-64 z-40 flex flex-col gap-4 touch-none select-none">
+        {BUTTONS.map(({ action, label }) => (
+          <div
+            key={action}
+            onTouchStart={() => inputRef.current?.setVirtual(action, 1)}
+            onTouchEnd={() => inputRef.current?.setVirtual(action, 0)}
+            onTouchCancel={() => inputRef.current?.setVirtual(action, 0)}
+            className="w-16 h-16 flex items-center justify-center rounded-full border-2 border-green-600 bg-green-900/30 text-green-400 font-mono text-sm"
+          >
+            {label}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
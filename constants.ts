@@ -1,37 +1,109 @@
 
-import { MineralType, ShipConfig, UpgradeCost } from './types';
+import { MineralType, ShipConfig, UpgradeDef, ModuleDef, SlotKind, EnemyKind, EnemyDef, WeaponId, WeaponDef, Bindings, AudioSettings, MusicMood, MusicMoodDef, FieldBand, MarketEvent, Station } from './types';
 
-export const CANVAS_WIDTH = window.innerWidth;
-export const CANVAS_HEIGHT = window.innerHeight;
+// Fixed simulation step. Every rate below is per second and gets scaled by dt.
+export const SIM_HZ = 60;
+export const SIM_DT = 1 / SIM_HZ;
+export const MAX_FRAME_TIME = 0.25; // Clamp hitches so the accumulator can't spiral
 
-export const FPS = 60;
-
-export const STATION_POSITION = { x: 0, y: 0 };
-export const STATION_RADIUS = 150;
-export const DOCKING_RANGE = 200;
+export const DOCKING_MARGIN = 50; // Docking range past a station's radius
+export const LAUNCH_CLEARANCE = 70; // Launches start this far outside a station's radius
 export const LOOT_COLLECTION_RANGE = 60;
-export const LOOT_DESPAWN_TIME = 1800; // 30 seconds at 60fps
+export const LOOT_DESPAWN_TIME = 30; // Seconds
+export const DOCKING_SPEED = 30; // Max speed (units/s) that still docks
+
+// Drag is the fraction of velocity kept after one second
+export const SHIP_DRAG = 0.547;
+export const SHIP_BRAKE = 0.2; // Extra drag from a full retro burn
+export const BRAKE_FUEL_SHARE = 0.5; // Retro fuel burn relative to main thrust
+export const LOOT_DRAG = 0.046;
 
 export const INITIAL_SHIP_CONFIG: ShipConfig = {
   maxFuel: 1000,
-  fuelConsumptionRate: 0.05,
-  thrustConsumptionRate: 0.5,
+  fuelConsumptionRate: 3,
+  thrustConsumptionRate: 30,
   maxCargo: 20,
-  acceleration: 0.15,
-  maxSpeed: 8,
-  rotationSpeed: 0.08,
-  miningPower: 1.5,
+  acceleration: 540,
+  maxSpeed: 480,
+  rotationSpeed: 4.8,
+  miningPower: 90,
   miningRange: 350,
+  beamWidth: 0,
+  radarRange: 2000,
+  shieldCapacity: 0,
+  shieldRegen: 0,
+  weaponDamage: 1,
+  heatCapacity: 100,
+  coolingRate: 20,
+};
+
+export const INITIAL_HULL = 100;
+export const SHIP_COLLISION_RADIUS = 16;
+export const COLLISION_RESTITUTION = 0.5; // Share of impact speed kept on bounce
+export const COLLISION_SAFE_SPEED = 60; // Impacts slower than this (units/s) are harmless
+export const COLLISION_DAMAGE_SCALE = 0.12; // Hull lost per unit/s above the safe speed
+export const REPAIR_COST_PER_HULL = 2;
+
+// Towing a stranded or wrecked ship home instead of ending the campaign
+export const RESCUE = {
+  TOW_BASE_FEE: 150,
+  TOW_FEE_PER_KM: 80,
+  TOW_FUEL: 150, // The tow crew leaves at least this much in the tank so the ship can fly again
+  STRANDED_CARGO_LOSS: 0.5, // Share of each ore jettisoned to lighten a tow
+  WRECK_CARGO_LOSS: 1, // A destroyed ship loses its whole hold
+  INSURANCE_PREMIUM: 400, // One policy covers one rescue
 };
 
+// Tuning shared by every enemy archetype
 export const ALIEN_CONFIG = {
-  SPAWN_RATE: 0.001, // ~Once every 16 seconds roughly
-  HP: 300,
-  SPEED: 3.0,
-  DRAIN_RANGE: 300,
-  DRAIN_INTERVAL: 45, // Frames between cargo steals
-  COLOR_BODY: '#a855f7', // Purple
-  COLOR_LIGHTS: '#22c55e', // Green
+  MAX_ACTIVE: 6,
+  BRAKE: 0.046, // Fraction of velocity kept per second while hovering
+  WOBBLE_SPEED: 6, // Radians per second
+  SPAWN_DISTANCE: 2000, // Spawn outside view
+  GROUP_SPREAD: 150, // Swarm members spawn scattered this far apart
+  WARP_CHARGE: 5, // Seconds a fleeing alien needs before it can jump out
+  EVADE_TIME: 0.8, // Seconds of jinking after each laser hit
+  EVADE_ACCELERATION: 480,
+  AVOID_RANGE: 120, // Gap to a rock's surface where it starts steering away
+  AVOID_ACCELERATION: 900,
+};
+
+// Brutes line up behind a rock near the ship and shove it along the line of fire
+export const ENEMY_RAM = {
+  SEARCH_RANGE: 800, // Only rocks this close to the ship are worth pushing
+  CONTACT_DISTANCE: 30, // How close to its lining-up point a brute must be to shove
+  IMPULSE: 200000, // Divided by rock radius squared
+  COOLDOWN: 4, // Seconds
+};
+
+export const ENEMIES: Record<EnemyKind, EnemyDef> = {
+  saucer: {
+    kind: 'saucer', name: 'SAUCER', behaviour: 'DRAIN_CARGO',
+    hp: 300, radius: 30, speed: 180, acceleration: 360, fleeSpeed: 300, fleeHpShare: 0.35,
+    drainRange: 300, drainInterval: 0.75, drainAmount: 1, fleeAfter: 400,
+    spawn: { base: 0.03, perKm: 0, perCargoValue: 0.06 },
+    group: { min: 1, max: 1 },
+    colorBody: '#a855f7', colorLights: '#22c55e', // Purple, Green
+    voice: { wave: 'sine', frequency: 400, lfoRate: 10, lfoDepth: 50, volume: 0.1 },
+  },
+  drone: {
+    kind: 'drone', name: 'SIPHON DRONE', behaviour: 'SIPHON_FUEL',
+    hp: 60, radius: 12, speed: 340, acceleration: 720, fleeSpeed: 380, fleeHpShare: 0,
+    drainRange: 120, drainInterval: 0.5, drainAmount: 12, fleeAfter: 150,
+    spawn: { base: 0, perKm: 0.006, perCargoValue: 0 },
+    group: { min: 3, max: 4 },
+    colorBody: '#06b6d4', colorLights: '#facc15', // Cyan, Yellow
+    voice: { wave: 'square', frequency: 900, lfoRate: 24, lfoDepth: 120, volume: 0.02 },
+  },
+  brute: {
+    kind: 'brute', name: 'BRUTE', behaviour: 'RAM',
+    hp: 700, radius: 40, speed: 130, acceleration: 220, fleeSpeed: 200, fleeHpShare: 0.2,
+    drainRange: 0, drainInterval: 0, drainAmount: 0, fleeAfter: 0,
+    spawn: { base: 0, perKm: 0.004, perCargoValue: 0.01 },
+    group: { min: 1, max: 1 },
+    colorBody: '#dc2626', colorLights: '#f97316', // Red, Orange
+    voice: { wave: 'sawtooth', frequency: 70, lfoRate: 2, lfoDepth: 8, volume: 0.08 },
+  },
 };
 
 export const MINERAL_VALUES: Record<MineralType, number> = {
@@ -48,9 +120,277 @@ export const MINERAL_COLORS: Record<MineralType, string> = {
   [MineralType.KRONOS]: '#d946ef', // Magenta
 };
 
+// Selling floods the station: each unit sold knocks SELL_IMPACT off that
+// mineral's price, and the gap to base closes again during flight
+export const MARKET = {
+  SELL_IMPACT: 0.04,
+  MIN_SUPPLY: 0.35, // Price never falls below this fraction of base
+  RECOVERY: 0.995, // Fraction of the price gap kept per second of flight
+  EVENT_RATE: 1 / 240, // Chance per second of flight that demand shifts
+  HISTORY_LENGTH: 24, // Visits kept for the price chart
+};
+
+export const MARKET_EVENTS: MarketEvent[] = [
+  { id: 'foundry-strike', name: 'FOUNDRY STRIKE', description: 'Smelters idle. Nobody wants iron.',
+    demand: { [MineralType.IRON]: 0.5 }, duration: 300 },
+  { id: 'chip-shortage', name: 'CHIP SHORTAGE', description: 'Fabs on Titan are paying double for silicon.',
+    demand: { [MineralType.SILICON]: 2 }, duration: 240 },
+  { id: 'gold-rush', name: 'GOLD RUSH', description: 'Every prospector in the ring is hauling gold.',
+    demand: { [MineralType.GOLD]: 0.6 }, duration: 300 },
+  { id: 'reactor-refit', name: 'REACTOR REFIT', description: 'Fleet refit. Kronos crystals in demand.',
+    demand: { [MineralType.KRONOS]: 1.6 }, duration: 180 },
+  { id: 'hull-contract', name: 'HULL CONTRACT', description: 'Shipyard orders: iron and silicon wanted.',
+    demand: { [MineralType.IRON]: 1.5, [MineralType.SILICON]: 1.3 }, duration: 240 },
+];
+
+const ALL_MINERALS = { [MineralType.IRON]: 1, [MineralType.SILICON]: 1, [MineralType.GOLD]: 1, [MineralType.KRONOS]: 1 };
+
+// The first entry is home: new campaigns start there
+export const STATIONS: Station[] = [
+  { id: 'retro-rocket', name: 'RETRO-ROCKET STATION', tagline: 'DOCKING BAY 94 // WELCOME PROSPECTOR',
+    x: 0, y: 0, radius: 150, color: '#00ff00',
+    services: ['MARKET', 'REFUEL', 'REPAIR', 'SHIPYARD'], fuelPrice: 0.1, buyPrices: ALL_MINERALS },
+  { id: 'silica-depot', name: 'SILICA DEPOT', tagline: 'WAFER FOUNDRY // SILICON WANTED',
+    x: 1250, y: -900, radius: 90, color: '#60a5fa',
+    services: ['MARKET', 'REFUEL'], fuelPrice: 0.15,
+    buyPrices: { [MineralType.IRON]: 0.9, [MineralType.SILICON]: 1.2, [MineralType.GOLD]: 0.9 } },
+  { id: 'goldwater', name: 'GOLDWATER ASSAY', tagline: 'ASSAY OFFICE // HONEST SCALES',
+    x: -2300, y: 1300, radius: 100, color: '#fbbf24',
+    services: ['MARKET', 'REFUEL', 'REPAIR'], fuelPrice: 0.25,
+    buyPrices: { [MineralType.IRON]: 0.8, [MineralType.GOLD]: 1.2, [MineralType.KRONOS]: 0.9 } },
+  { id: 'outpost-kr7', name: 'OUTPOST KR-7', tagline: 'KRONOS BAND // FUEL AT FRONTIER RATES',
+    x: 3500, y: 2500, radius: 70, color: '#d946ef',
+    services: ['MARKET', 'REFUEL'], fuelPrice: 0.6,
+    buyPrices: { [MineralType.GOLD]: 1, [MineralType.KRONOS]: 1.3 } },
+  { id: 'outpost-kr9', name: 'OUTPOST KR-9', tagline: 'KRONOS BAND // PATCH AND GO',
+    x: -3300, y: -3400, radius: 70, color: '#d946ef',
+    services: ['REFUEL', 'REPAIR'], fuelPrice: 0.8, buyPrices: {} },
+];
+
+export const CONTRACTS = {
+  OFFERS: 3, // Posted per station visit
+  MAX_ACTIVE: 3,
+  LOG_LENGTH: 5,
+  SURVEY_RADIUS: 150,
+  SURVEY_MIN_DIST: 3000, // Survey waypoints are out in the far bands
+  // Units asked for per delivery, by mineral
+  DELIVERY_AMOUNT: {
+    [MineralType.IRON]: { MIN: 10, MAX: 20 },
+    [MineralType.SILICON]: { MIN: 6, MAX: 12 },
+    [MineralType.GOLD]: { MIN: 3, MAX: 6 },
+    [MineralType.KRONOS]: { MIN: 1, MAX: 3 },
+  } as Record<MineralType, { MIN: number; MAX: number }>,
+  DELIVERY_PREMIUM: 1.6, // Reward relative to the base value of the goods
+  // Kills asked for and pay per bounty, by target
+  BOUNTY: {
+    saucer: { REQUIRED: 1, REWARD: 600 },
+    drone: { REQUIRED: 3, REWARD: 450 },
+    brute: { REQUIRED: 1, REWARD: 800 },
+  } as Record<EnemyKind, { REQUIRED: number; REWARD: number }>,
+  PENALTY_SHARE: 0.3, // Failure costs this share of the reward
+};
+
+export const CARGO_POD = {
+  HP: 100,
+  RADIUS: 12,
+  TOW_RANGE: 350, // Pods follow the ship while it stays this close
+  FOLLOW_DISTANCE: 90,
+  ACCELERATION: 300,
+  MAX_SPEED: 400,
+  DRAG: 0.3, // Fraction of velocity kept per second
+  ALIEN_DAMAGE: 12, // Hull lost per second while a saucer hovers nearby
+};
+
 export const ASTEROID_SPAWN_RADIUS = 600; // Minimum distance from station to spawn
+export const ASTEROID_COUNT = 150;
+export const FRAGMENT_MIN_RADIUS = 28; // Rocks at least this big split instead of dropping loot
+export const FRAGMENT_SCALE = { MIN: 0.45, MAX: 0.6 }; // Child radius relative to parent
+export const FRAGMENT_HEALTH_SCALE = 0.6;
+export const FRAGMENT_KICK = { MIN: 30, MAX: 70 }; // Outward speed (units/s) added to children
 export const WORLD_BOUNDS = 5000; // +/- 5000 units
+// Rocks circle the belt centre; angular speed falls off as (REFERENCE_RADIUS / r)^1.5
+// so the inner rings overtake the outer ones
+export const ASTEROID_ORBIT = {
+  REFERENCE_RADIUS: 1000,
+  ANGULAR_SPEED: 0.02, // rad/s at REFERENCE_RADIUS (~20 units/s)
+  MIN_RADIUS: 400, // Clamp so stray rocks near the station don't whip around it
+};
+export const ASTEROID_DRIFT_DRAG = 0.8; // Fraction of off-orbit drift kept per second
+export const ASTEROID_BLAST = { RANGE: 250, IMPULSE: 60000 }; // Push from a breaking rock; divided by target radius^2
+export const LASER_PUSH = 16000; // Beam pressure (units/s^2 at radius 1), divided by target radius^2
+// Distance bands drive both the initial mineral mix and how the belt regrows
+export const FIELD_BANDS: FieldBand[] = [
+  { name: 'INNER RING', minDist: 0, maxDist: 1000, respawnInterval: 20,
+    mix: { [MineralType.IRON]: 1 } },
+  { name: 'SILICON RING', minDist: 1000, maxDist: 2000, respawnInterval: 30,
+    mix: { [MineralType.IRON]: 0.6, [MineralType.SILICON]: 0.4 } },
+  { name: 'GOLD RING', minDist: 2000, maxDist: 3000, respawnInterval: 45,
+    mix: { [MineralType.IRON]: 0.6, [MineralType.SILICON]: 0.1, [MineralType.GOLD]: 0.3 } },
+  { name: 'KRONOS BAND', minDist: 3000, maxDist: WORLD_BOUNDS, respawnInterval: 60,
+    mix: { [MineralType.IRON]: 0.6, [MineralType.SILICON]: 0.1, [MineralType.GOLD]: 0.1, [MineralType.KRONOS]: 0.2 } },
+];
+export const FIELD_CHECK_INTERVAL = 1; // Seconds between band population counts
+export const RESPAWN_MIN_SHIP_DISTANCE = 1200; // Never pop a rock in on top of the player
 
-// Upgrade multipliers
-export const UPGRADE_COST_BASE = 200;
-export const UPGRADE_COST_MULTIPLIER = 1.8;
\ No newline at end of file
+export const SPATIAL_CELL_SIZE = 250; // Bucket size for asteroid/loot lookups
+
+// Upgrade tree. The first four keep the steps older saves were built with
+// (see the v8 save migration), so don't retune their perLevel.
+export const UPGRADE_COST_MULTIPLIER = 1.8;
+export const UPGRADE_REFUND_SHARE = 0.5; // Credits back when selling a level
+export const UPGRADE_RESPEC_SHARE = 0.75; // Credits back when stripping everything at once
+
+export const UPGRADES: UpgradeDef[] = [
+  { id: 'thrusters', name: 'ION THRUSTERS', description: 'Increase acceleration.',
+    tier: 1, stat: 'acceleration', perLevel: 72, maxLevel: 8, baseCost: 200, requires: [] },
+  { id: 'cargo-hold', name: 'CARGO HOLD', description: 'Increase storage capacity.',
+    tier: 1, stat: 'maxCargo', perLevel: 10, maxLevel: 8, baseCost: 200, requires: [] },
+  { id: 'focal-lens', name: 'FOCAL LENS', description: 'Faster mining speed.',
+    tier: 1, stat: 'miningPower', perLevel: 30, maxLevel: 8, baseCost: 200, requires: [] },
+  { id: 'fuel-cells', name: 'FUEL CELLS', description: 'Increase max fuel capacity.',
+    tier: 1, stat: 'maxFuel', perLevel: 200, maxLevel: 8, baseCost: 200, requires: [] },
+  { id: 'vector-nozzles', name: 'VECTOR NOZZLES', description: 'Raise the top speed limiter.',
+    tier: 2, stat: 'maxSpeed', perLevel: 60, maxLevel: 5, baseCost: 350, requires: [{ id: 'thrusters', level: 2 }] },
+  { id: 'gyroscopes', name: 'GYROSCOPES', description: 'Turn faster.',
+    tier: 2, stat: 'rotationSpeed', perLevel: 0.6, maxLevel: 5, baseCost: 300, requires: [{ id: 'thrusters', level: 1 }] },
+  { id: 'collimator', name: 'BEAM COLLIMATOR', description: 'Mine from further away.',
+    tier: 2, stat: 'miningRange', perLevel: 50, maxLevel: 5, baseCost: 350, requires: [{ id: 'focal-lens', level: 2 }] },
+  { id: 'recycler', name: 'LIFE SUPPORT RECYCLER', description: 'Burn less fuel while idle.',
+    tier: 2, stat: 'fuelConsumptionRate', perLevel: -0.4, maxLevel: 5, baseCost: 300, requires: [{ id: 'fuel-cells', level: 2 }] },
+  { id: 'plasma-injectors', name: 'PLASMA INJECTORS', description: 'Burn less fuel under thrust.',
+    tier: 3, stat: 'thrustConsumptionRate', perLevel: -3, maxLevel: 5, baseCost: 500,
+    requires: [{ id: 'vector-nozzles', level: 2 }, { id: 'recycler', level: 2 }] },
+  { id: 'gun-capacitors', name: 'GUN CAPACITORS', description: 'Harder-hitting cannon and torpedoes.',
+    tier: 1, stat: 'weaponDamage', perLevel: 0.15, maxLevel: 6, baseCost: 250, requires: [] },
+  { id: 'heat-sinks', name: 'HEAT SINKS', description: 'Fire longer before the guns lock out.',
+    tier: 1, stat: 'heatCapacity', perLevel: 20, maxLevel: 5, baseCost: 200, requires: [] },
+  { id: 'coolant-pumps', name: 'COOLANT PUMPS', description: 'Shed weapon heat faster.',
+    tier: 2, stat: 'coolingRate', perLevel: 5, maxLevel: 5, baseCost: 300, requires: [{ id: 'heat-sinks', level: 1 }] },
+];
+
+// Guns are separate from the mining laser. Primary fires on the right mouse
+// button, secondary on Space; both aim at the cursor from the ship's nose.
+export const WEAPONS: Record<WeaponId, WeaponDef> = {
+  cannon: { id: 'cannon', name: 'PULSE CANNON', trigger: 'PRIMARY',
+    damage: 30, speed: 900, cooldown: 0.15, heat: 8, fuelCost: 1, life: 0.8, radius: 3, blastRadius: 0, color: '#fde047' },
+  torpedo: { id: 'torpedo', name: 'TORPEDO', trigger: 'SECONDARY',
+    damage: 220, speed: 450, cooldown: 2.5, heat: 35, fuelCost: 15, life: 2.5, radius: 6, blastRadius: 120, color: '#fb7185' },
+};
+export const WEAPON_HEAT = {
+  RESUME_SHARE: 0.4, // After overheating, guns come back once heat falls to this share of capacity
+};
+
+// Ship fitting. Every module slots into one kind of slot; the hardpoint always
+// carries a laser, so a laser can only be swapped, never pulled.
+export const SHIP_SLOTS: SlotKind[] = ['HARDPOINT', 'INTERNAL', 'INTERNAL', 'UTILITY', 'UTILITY'];
+export const SHIP_MASS = 20; // Bare hull with the stock laser; fitted mass scales acceleration by SHIP_MASS / total
+export const MODULE_RESALE_SHARE = 0.5;
+
+export const MODULES: ModuleDef[] = [
+  { id: 'mining-laser', name: 'MINING LASER', description: 'Stock single-target cutter.',
+    slot: 'HARDPOINT', price: 150, mass: 0, effects: {} },
+  { id: 'wide-beam-laser', name: 'WIDE-BEAM EMITTER', description: 'Sweeps every rock near the aim point at reduced power.',
+    slot: 'HARDPOINT', price: 900, mass: 3, effects: { beamWidth: 60, miningPower: -30 } },
+  { id: 'pulse-cutter', name: 'PULSE CUTTER', description: 'Hard-hitting, short-reach beam.',
+    slot: 'HARDPOINT', price: 700, mass: 2, effects: { miningPower: 60, miningRange: -120 } },
+  { id: 'aux-fuel-tank', name: 'AUX FUEL TANK', description: 'More fuel, but heavy when fitted.',
+    slot: 'INTERNAL', price: 450, mass: 6, effects: { maxFuel: 500 } },
+  { id: 'cargo-expander', name: 'CARGO EXPANDER', description: 'Extra racks in the hold.',
+    slot: 'INTERNAL', price: 600, mass: 4, effects: { maxCargo: 15 } },
+  { id: 'shield-generator', name: 'SHIELD GENERATOR', description: 'Soaks impacts before the hull. Draws power at idle.',
+    slot: 'INTERNAL', price: 1200, mass: 5, effects: { shieldCapacity: 40, shieldRegen: 4, fuelConsumptionRate: 1 } },
+  { id: 'scanner', name: 'LONG-RANGE SCANNER', description: 'Extends radar coverage.',
+    slot: 'UTILITY', price: 400, mass: 1, effects: { radarRange: 1500 } },
+  { id: 'rcs-pack', name: 'RCS PACK', description: 'Side thrusters for quicker turns.',
+    slot: 'UTILITY', price: 350, mass: 1, effects: { rotationSpeed: 1.2 } },
+];
+
+// Controls. Pad indices follow the browser's "standard" gamepad mapping.
+export const INPUT = {
+  STICK_DEADZONE: 0.2, // Stick deflection below this reads as zero
+  AIM_STICK: { X: 2, Y: 3 }, // Right stick steers the laser
+  AIM_CONE: 0.35, // Radians either side of the stick that aim assist will snap to a rock
+  TOUCH_STICK_RADIUS: 60, // Pixels of finger travel for full deflection on the on-screen stick
+  TOUCH_TARGET_SLOP: 30, // Extra radius around an enemy that still counts as tapping it
+  TOUCH_MOUSE_GRACE: 800, // Milliseconds after a touch during which mouse events are taken as emulated
+};
+
+export const DEFAULT_BINDINGS: Bindings = {
+  thrust: [{ device: 'KEY', code: 'KeyW' }, { device: 'KEY', code: 'ArrowUp' }, { device: 'PAD_BUTTON', button: 7 }, { device: 'PAD_AXIS', axis: 1, direction: -1 }],
+  rotateLeft: [{ device: 'KEY', code: 'KeyA' }, { device: 'KEY', code: 'ArrowLeft' }, { device: 'PAD_AXIS', axis: 0, direction: -1 }],
+  rotateRight: [{ device: 'KEY', code: 'KeyD' }, { device: 'KEY', code: 'ArrowRight' }, { device: 'PAD_AXIS', axis: 0, direction: 1 }],
+  dock: [{ device: 'KEY', code: 'KeyS' }, { device: 'KEY', code: 'ArrowDown' }, { device: 'PAD_BUTTON', button: 6 }],
+  fire: [{ device: 'MOUSE', button: 0 }, { device: 'PAD_BUTTON', button: 5 }],
+  shoot: [{ device: 'MOUSE', button: 2 }, { device: 'PAD_BUTTON', button: 0 }],
+  shootSecondary: [{ device: 'KEY', code: 'Space' }, { device: 'PAD_BUTTON', button: 4 }],
+  map: [{ device: 'KEY', code: 'KeyM' }, { device: 'PAD_BUTTON', button: 8 }],
+  pause: [{ device: 'KEY', code: 'Escape' }, { device: 'KEY', code: 'KeyP' }, { device: 'PAD_BUTTON', button: 9 }],
+  mute: [{ device: 'KEY', code: 'KeyN' }],
+};
+
+// Sound. The master bus is scaled by HEADROOM so full volume doesn't clip.
+export const AUDIO = {
+  HEADROOM: 0.25,
+  NOISE_SECONDS: 2, // Length of the shared white noise buffer
+  PAN_DISTANCE: 900, // Sideways offset at which a world sound is fully in one ear
+  REFERENCE_DISTANCE: 400, // World sounds play at full volume this close, then fall off with distance
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: { volume: 1, muted: false },
+  sfx: { volume: 1, muted: false },
+  engine: { volume: 1, muted: false },
+  alerts: { volume: 1, muted: false },
+  music: { volume: 0.6, muted: false },
+};
+
+// Adaptive score, all synthesised
+export const MUSIC = {
+  BASE_FREQUENCY: 110, // A2; every root is tuned from here
+  LOW_FUEL: 0.2, // Fuel fraction below which the score turns anxious
+  CROSSFADE: 1.5, // Seconds for layers to settle after a mood change
+  LOOKAHEAD: 0.1, // Seconds of notes scheduled ahead of the audio clock
+  SCHEDULE_INTERVAL: 25, // ms between scheduling passes
+  GLIDE: 0.06, // Theremin portamento time constant, seconds
+  VIBRATO_RATE: 5.5, // Hz
+  VIBRATO_DEPTH: 0.012, // Fraction of the note's pitch
+};
+
+// Minor with a raised fourth for the belt, whole tone once something is hunting you
+export const MUSIC_MOODS: Record<MusicMood, MusicMoodDef> = {
+  CALM: {
+    tempo: 66,
+    scale: [0, 2, 3, 6, 7, 10, 12, 14, 15],
+    roots: [0, 0, -2, -4],
+    density: 0.3,
+    layers: { drone: 1, theremin: 0.8, pulse: 0, tension: 0, heartbeat: 0 },
+  },
+  MINING: {
+    tempo: 92,
+    scale: [0, 2, 3, 6, 7, 10, 12, 14, 15],
+    roots: [0, 3, -2, 1],
+    density: 0.45,
+    layers: { drone: 0.8, theremin: 0.6, pulse: 1, tension: 0, heartbeat: 0 },
+  },
+  ALIEN: {
+    tempo: 108,
+    scale: [0, 2, 4, 6, 8, 10, 12, 14, 16],
+    roots: [0, 6, 1, 6],
+    density: 0.6,
+    layers: { drone: 0.6, theremin: 1, pulse: 0.7, tension: 1, heartbeat: 0 },
+  },
+  LOW_FUEL: {
+    tempo: 80,
+    scale: [0, 1, 3, 6, 7, 8, 12, 13],
+    roots: [0, 1, 0, -1],
+    density: 0.2,
+    layers: { drone: 0.7, theremin: 0.5, pulse: 0, tension: 0.4, heartbeat: 1 },
+  },
+  DOCKED: {
+    tempo: 58,
+    scale: [0, 2, 4, 6, 7, 9, 11, 12, 14],
+    roots: [0, 5, 2, 7],
+    density: 0.25,
+    layers: { drone: 0.9, theremin: 0.6, pulse: 0, tension: 0, heartbeat: 0 },
+  },
+};
@@ -0,0 +1,77 @@
+import { Asteroid, Point } from '../types';
+
+export interface Contact {
+  nx: number; // Unit normal pointing from the asteroid towards the circle
+  ny: number;
+  depth: number; // How far the circle overlaps the hull
+}
+
+// Asteroid vertices are stored in local space; this places them in the world
+export const asteroidPolygon = (ast: Asteroid): Point[] => {
+  const cos = Math.cos(ast.rotation);
+  const sin = Math.sin(ast.rotation);
+  return ast.vertices.map(v => ({
+    x: ast.x + v.x * cos - v.y * sin,
+    y: ast.y + v.x * sin + v.y * cos,
+  }));
+};
+
+const pointInPolygon = (x: number, y: number, poly: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Circle vs. the jagged asteroid outline. Returns null when they don't touch.
+export const circleAsteroidContact = (cx: number, cy: number, radius: number, ast: Asteroid): Contact | null => {
+  // Cheap reject using the bounding circle (vertices reach up to 1.2x radius)
+  const reach = ast.radius * 1.2 + radius;
+  if ((cx - ast.x)**2 + (cy - ast.y)**2 > reach * reach) return null;
+
+  const poly = asteroidPolygon(ast);
+  let bestDistSq = Infinity;
+  let closestX = 0;
+  let closestY = 0;
+
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[j];
+    const b = poly[i];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const lenSq = ex*ex + ey*ey;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((cx - a.x) * ex + (cy - a.y) * ey) / lenSq)) : 0;
+    const px = a.x + ex * t;
+    const py = a.y + ey * t;
+    const distSq = (cx - px)**2 + (cy - py)**2;
+    if (distSq < bestDistSq) {
+      bestDistSq = distSq;
+      closestX = px;
+      closestY = py;
+    }
+  }
+
+  const inside = pointInPolygon(cx, cy, poly);
+  const dist = Math.sqrt(bestDistSq);
+  if (!inside && dist >= radius) return null;
+
+  let nx: number;
+  let ny: number;
+  if (dist > 0.0001) {
+    nx = (cx - closestX) / dist;
+    ny = (cy - closestY) / dist;
+    if (inside) { nx = -nx; ny = -ny; }
+  } else {
+    // Exactly on the edge: fall back to pushing away from the centre
+    const cd = Math.sqrt((cx - ast.x)**2 + (cy - ast.y)**2) || 1;
+    nx = (cx - ast.x) / cd;
+    ny = (cy - ast.y) / cd;
+  }
+
+  return { nx, ny, depth: inside ? radius + dist : radius - dist };
+};
@@ -0,0 +1,168 @@
+import { Contract, ContractBoard, ContractObjective, PlayerState, Point, Station, MineralType, EnemyKind } from '../types';
+import { CONTRACTS, CARGO_POD, MINERAL_VALUES, STATIONS, LAUNCH_CLEARANCE, WORLD_BOUNDS, ENEMIES } from '../constants';
+import { createRng, Rng } from '../utils/random';
+import { findStation } from './world';
+
+export const createContractBoard = (): ContractBoard => ({ offers: [], active: [], log: [], nextId: 0 });
+
+export const describeContract = (contract: Contract): string => {
+  const objective = contract.objective;
+  switch (objective.kind) {
+    case 'DELIVERY':
+      return `DELIVER ${objective.amount} ${objective.mineral.toUpperCase()} TO ${findStation(contract.issuerId).name}`;
+    case 'BOUNTY':
+      return `DESTROY ${ENEMIES[objective.target].name}${objective.required > 1 ? 'S' : ''} (${objective.kills}/${objective.required})`;
+    case 'SURVEY':
+      return `SURVEY WAYPOINT ${Math.round(objective.x)}, ${Math.round(objective.y)}`;
+    case 'ESCORT':
+      return `ESCORT CARGO POD TO ${findStation(objective.destinationId).name}`;
+  }
+};
+
+// Where the radar should point for this contract, if anywhere
+export const contractTarget = (contract: Contract): Point | null => {
+  const objective = contract.objective;
+  switch (objective.kind) {
+    case 'DELIVERY': return findStation(contract.issuerId);
+    case 'SURVEY': return objective;
+    case 'ESCORT': return findStation(objective.destinationId);
+    default: return null;
+  }
+};
+
+const rollBetween = (random: Rng, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+// Builds one offer's objective and pay. Rewards scale with how far the job takes you.
+const rollOffer = (random: Rng, station: Station): Pick<Contract, 'objective' | 'reward' | 'timeLimit'> => {
+  const others = STATIONS.filter(s => s.id !== station.id);
+  const kinds: ContractObjective['kind'][] = others.length > 0
+    ? ['DELIVERY', 'BOUNTY', 'SURVEY', 'ESCORT']
+    : ['DELIVERY', 'BOUNTY', 'SURVEY'];
+  const kind = kinds[Math.floor(random() * kinds.length)];
+
+  switch (kind) {
+    case 'DELIVERY': {
+      const wanted = Object.keys(station.buyPrices) as MineralType[];
+      const pool = wanted.length > 0 ? wanted : Object.values(MineralType);
+      const mineral = pool[Math.floor(random() * pool.length)];
+      const range = CONTRACTS.DELIVERY_AMOUNT[mineral];
+      const amount = rollBetween(random, range.MIN, range.MAX);
+      return {
+        objective: { kind, mineral, amount },
+        reward: Math.round(amount * MINERAL_VALUES[mineral] * CONTRACTS.DELIVERY_PREMIUM),
+        timeLimit: rollBetween(random, 300, 480),
+      };
+    }
+    case 'BOUNTY': {
+      const targets = Object.keys(ENEMIES) as EnemyKind[];
+      const target = targets[Math.floor(random() * targets.length)];
+      const { REQUIRED, REWARD } = CONTRACTS.BOUNTY[target];
+      return { objective: { kind, target, kills: 0, required: REQUIRED }, reward: REWARD, timeLimit: rollBetween(random, 360, 480) };
+    }
+    case 'SURVEY': {
+      const angle = random() * Math.PI * 2;
+      const dist = CONTRACTS.SURVEY_MIN_DIST + random() * (WORLD_BOUNDS - CONTRACTS.SURVEY_MIN_DIST - 200);
+      const x = Math.cos(angle) * dist;
+      const y = Math.sin(angle) * dist;
+      const trip = Math.sqrt((x - station.x)**2 + (y - station.y)**2);
+      return { objective: { kind, x, y }, reward: Math.round(trip * 0.15), timeLimit: Math.round(trip / 40) + 120 };
+    }
+    case 'ESCORT': {
+      const destination = others[Math.floor(random() * others.length)];
+      const trip = Math.sqrt((destination.x - station.x)**2 + (destination.y - station.y)**2);
+      return {
+        // The pod waits beside the launch point
+        objective: {
+          kind,
+          destinationId: destination.id,
+          pod: { x: station.x + 60, y: station.y + station.radius + LAUNCH_CLEARANCE, hp: CARGO_POD.HP },
+        },
+        reward: Math.round(200 + trip * 0.3),
+        timeLimit: Math.round(trip / 40) + 180,
+      };
+    }
+  }
+};
+
+// Replaces the board's offers with fresh ones from this station. Rolls are keyed
+// by the id counter so the same campaign always posts the same jobs.
+export const postOffers = (board: ContractBoard, station: Station, seed: string): ContractBoard => {
+  const random = createRng(seed, `contracts-${board.nextId}`);
+  let nextId = board.nextId;
+  const offers: Contract[] = [];
+  for (let i = 0; i < CONTRACTS.OFFERS; i++) {
+    const { objective, reward, timeLimit } = rollOffer(random, station);
+    offers.push({
+      id: `contract-${nextId++}`,
+      issuerId: station.id,
+      reward,
+      penalty: Math.round(reward * CONTRACTS.PENALTY_SHARE),
+      timeLimit,
+      timeLeft: timeLimit,
+      status: 'OFFERED',
+      objective,
+    });
+  }
+  return { ...board, offers, nextId };
+};
+
+export const acceptContract = (board: ContractBoard, id: string): ContractBoard => {
+  const contract = board.offers.find(c => c.id === id);
+  if (!contract || board.active.length >= CONTRACTS.MAX_ACTIVE) return board;
+  return {
+    ...board,
+    offers: board.offers.filter(c => c !== contract),
+    active: [...board.active, { ...contract, status: 'ACTIVE' }],
+  };
+};
+
+const logSettled = (board: ContractBoard, settled: Contract[]): Contract[] => {
+  return [...settled.reverse(), ...board.log].slice(0, CONTRACTS.LOG_LENGTH);
+};
+
+// Walking away from a job costs the same as failing it
+export const abandonContract = (board: ContractBoard, player: PlayerState, id: string): { board: ContractBoard; player: PlayerState } => {
+  const contract = board.active.find(c => c.id === id);
+  if (!contract) return { board, player };
+  const failed: Contract = { ...contract, status: 'FAILED' };
+  return {
+    board: { ...board, active: board.active.filter(c => c !== contract), log: logSettled(board, [failed]) },
+    player: { ...player, credits: Math.max(0, player.credits - contract.penalty) },
+  };
+};
+
+// Runs on docking: hands over deliveries due here, then pays out finished
+// contracts and charges for failed ones. Everything else stays active.
+export const settleContracts = (
+  board: ContractBoard,
+  player: PlayerState,
+  station: Station
+): { board: ContractBoard; player: PlayerState } => {
+  const cargo = { ...player.cargo };
+  let credits = player.credits;
+  const active: Contract[] = [];
+  const settled: Contract[] = [];
+
+  board.active.forEach(contract => {
+    let status = contract.status;
+    const objective = contract.objective;
+    if (status === 'ACTIVE' && objective.kind === 'DELIVERY' && contract.issuerId === station.id
+        && cargo[objective.mineral] >= objective.amount) {
+      cargo[objective.mineral] -= objective.amount;
+      status = 'COMPLETE';
+    }
+
+    if (status === 'COMPLETE') credits += contract.reward;
+    else if (status === 'FAILED') credits = Math.max(0, credits - contract.penalty);
+    else {
+      active.push(contract);
+      return;
+    }
+    settled.push({ ...contract, status });
+  });
+
+  return {
+    board: { ...board, active, log: logSettled(board, settled) },
+    player: { ...player, cargo, credits },
+  };
+};
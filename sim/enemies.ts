@@ -0,0 +1,253 @@
+import { World, GameEvent, Alien, Asteroid, EnemyDef, MineralType } from '../types';
+import { ALIEN_CONFIG, ENEMIES, ENEMY_RAM, STATIONS, MINERAL_VALUES, LOOT_DESPAWN_TIME } from '../constants';
+import { cargoTotal, nextEntityId } from './world';
+
+const cargoValue = (cargo: { [key in MineralType]?: number }): number => {
+  return (Object.keys(cargo) as MineralType[])
+    .reduce((total, type) => total + (cargo[type] || 0) * MINERAL_VALUES[type], 0);
+};
+
+// Chance per second of this archetype turning up. Deep space and a full hold
+// both draw more attention.
+const spawnRate = (def: EnemyDef, stationDistance: number, carried: number): number => {
+  return def.spawn.base + def.spawn.perKm * (stationDistance / 1000) + def.spawn.perCargoValue * (carried / 1000);
+};
+
+const spawnEnemies = (world: World, dt: number, events: GameEvent[]) => {
+  const ship = world.ship;
+  if (world.aliens.length >= ALIEN_CONFIG.MAX_ACTIVE) return;
+
+  const stationDistance = Math.min(...STATIONS.map(s => Math.sqrt((s.x - ship.position.x)**2 + (s.y - ship.position.y)**2)));
+  const carried = cargoValue(ship.cargo);
+
+  Object.values(ENEMIES).forEach(def => {
+    if (world.random() >= spawnRate(def, stationDistance, carried) * dt) return;
+
+    const angle = world.random() * Math.PI * 2;
+    const count = def.group.min + Math.floor(world.random() * (def.group.max - def.group.min + 1));
+    for (let i = 0; i < count && world.aliens.length < ALIEN_CONFIG.MAX_ACTIVE; i++) {
+      const alien: Alien = {
+        id: nextEntityId(world, 'alien'),
+        kind: def.kind,
+        x: ship.position.x + Math.cos(angle) * ALIEN_CONFIG.SPAWN_DISTANCE + (world.random() - 0.5) * ALIEN_CONFIG.GROUP_SPREAD,
+        y: ship.position.y + Math.sin(angle) * ALIEN_CONFIG.SPAWN_DISTANCE + (world.random() - 0.5) * ALIEN_CONFIG.GROUP_SPREAD,
+        vx: 0, vy: 0,
+        hp: def.hp,
+        maxHp: def.hp,
+        stolenCargo: {},
+        stolenFuel: 0,
+        state: 'CHASING',
+        drainTimer: 0,
+        warpTimer: 0,
+        evadeTimer: 0,
+        evadeSide: 1,
+        rockId: null,
+        ramTimer: 0,
+        wobbleAngle: world.random() * Math.PI * 2
+      };
+      world.aliens.push(alien);
+      events.push({ type: 'ALIEN_SPAWNED', alien });
+    }
+  });
+};
+
+// The rock a brute should line up: keep the current one while it's still near
+// the ship, otherwise take whichever rock near the ship is closest to the brute
+const pickRock = (world: World, alien: Alien): Asteroid | null => {
+  const ship = world.ship;
+  const nearShip = (a: Asteroid) => (a.x - ship.position.x)**2 + (a.y - ship.position.y)**2 < ENEMY_RAM.SEARCH_RANGE**2;
+  const current = alien.rockId ? world.asteroids.find(a => a.id === alien.rockId) : undefined;
+  if (current && nearShip(current)) return current;
+
+  let best: Asteroid | null = null;
+  let bestDist = Infinity;
+  for (const ast of world.asteroidIndex.queryRadius(ship.position.x, ship.position.y, ENEMY_RAM.SEARCH_RANGE)) {
+    const d = (ast.x - alien.x)**2 + (ast.y - alien.y)**2;
+    if (d < bestDist) {
+      best = ast;
+      bestDist = d;
+    }
+  }
+  return best;
+};
+
+// Whether this enemy has had its fill: hurt, carrying enough, or nothing left to take
+const wantsToFlee = (world: World, alien: Alien, def: EnemyDef): boolean => {
+  if (def.fleeHpShare > 0 && alien.hp <= alien.maxHp * def.fleeHpShare) return true;
+  if (def.behaviour === 'DRAIN_CARGO') {
+    const stolen = cargoValue(alien.stolenCargo);
+    return (def.fleeAfter > 0 && stolen >= def.fleeAfter) || (stolen > 0 && cargoTotal(world.ship.cargo) === 0);
+  }
+  if (def.behaviour === 'SIPHON_FUEL') {
+    return (def.fleeAfter > 0 && alien.stolenFuel >= def.fleeAfter) || (alien.stolenFuel > 0 && world.ship.currentFuel <= 0);
+  }
+  return false;
+};
+
+// CHASING -> DRAINING (or RAMMING for brutes) until the enemy has had its fill,
+// then FLEEING. A fleeing enemy charges its warp drive and jumps out with
+// whatever it stole unless it's shot down first.
+const updateEnemy = (world: World, alien: Alien, dt: number, events: GameEvent[]) => {
+  const ship = world.ship;
+  const def = ENEMIES[alien.kind];
+  const dx = ship.position.x - alien.x;
+  const dy = ship.position.y - alien.y;
+  const dist = Math.sqrt(dx*dx + dy*dy) || 1;
+
+  alien.wobbleAngle += ALIEN_CONFIG.WOBBLE_SPEED * dt;
+  alien.ramTimer = Math.max(0, alien.ramTimer - dt);
+
+  // State transitions. Fleeing is final.
+  let rock: Asteroid | null = null;
+  if (alien.state !== 'FLEEING') {
+    if (wantsToFlee(world, alien, def)) {
+      alien.state = 'FLEEING';
+      alien.warpTimer = ALIEN_CONFIG.WARP_CHARGE;
+      events.push({ type: 'ALIEN_FLEEING', alien });
+    } else if (def.behaviour === 'RAM') {
+      rock = pickRock(world, alien);
+      alien.rockId = rock?.id ?? null;
+      alien.state = rock ? 'RAMMING' : 'CHASING';
+    } else {
+      alien.state = dist > def.drainRange * 0.7 ? 'CHASING' : 'DRAINING';
+    }
+  }
+
+  // Steering
+  if (alien.state === 'CHASING') {
+    alien.vx += (dx / dist) * def.acceleration * dt;
+    alien.vy += (dy / dist) * def.acceleration * dt;
+  } else if (alien.state === 'FLEEING') {
+    alien.vx -= (dx / dist) * def.acceleration * dt;
+    alien.vy -= (dy / dist) * def.acceleration * dt;
+  } else if (alien.state === 'RAMMING' && rock) {
+    // Line up on the far side of the rock from the ship, then shove
+    const rx = ship.position.x - rock.x;
+    const ry = ship.position.y - rock.y;
+    const rockDist = Math.sqrt(rx*rx + ry*ry) || 1;
+    const gx = rock.x - (rx / rockDist) * (rock.radius + def.radius) - alien.x;
+    const gy = rock.y - (ry / rockDist) * (rock.radius + def.radius) - alien.y;
+    const goalDist = Math.sqrt(gx*gx + gy*gy) || 1;
+
+    if (goalDist > ENEMY_RAM.CONTACT_DISTANCE) {
+      alien.vx += (gx / goalDist) * def.acceleration * dt;
+      alien.vy += (gy / goalDist) * def.acceleration * dt;
+    } else {
+      const brake = Math.pow(ALIEN_CONFIG.BRAKE, dt);
+      alien.vx *= brake;
+      alien.vy *= brake;
+      if (alien.ramTimer <= 0) {
+        const push = ENEMY_RAM.IMPULSE / (rock.radius * rock.radius);
+        rock.vx += (rx / rockDist) * push;
+        rock.vy += (ry / rockDist) * push;
+        alien.ramTimer = ENEMY_RAM.COOLDOWN;
+        alien.rockId = null; // Find a fresh one for the next shove
+        events.push({ type: 'ASTEROID_RAMMED', alien, asteroid: rock });
+      }
+    }
+  } else {
+    // Brake/Hover
+    const brake = Math.pow(ALIEN_CONFIG.BRAKE, dt);
+    alien.vx *= brake;
+    alien.vy *= brake;
+  }
+
+  // Under fire it jinks sideways to spoil the player's aim
+  if (alien.evadeTimer > 0) {
+    alien.evadeTimer -= dt;
+    alien.vx += (-dy / dist) * alien.evadeSide * ALIEN_CONFIG.EVADE_ACCELERATION * dt;
+    alien.vy += (dx / dist) * alien.evadeSide * ALIEN_CONFIG.EVADE_ACCELERATION * dt;
+  }
+
+  // Veer away from rocks, harder the closer they are. A brute leaves its own target alone.
+  world.asteroidIndex.queryRadius(alien.x, alien.y, ALIEN_CONFIG.AVOID_RANGE + def.radius).forEach(ast => {
+    if (ast === rock) return;
+    const ax = alien.x - ast.x;
+    const ay = alien.y - ast.y;
+    const centreDist = Math.sqrt(ax*ax + ay*ay) || 1;
+    const gap = Math.max(0, centreDist - ast.radius - def.radius);
+    const strength = Math.max(0, 1 - gap / ALIEN_CONFIG.AVOID_RANGE) * ALIEN_CONFIG.AVOID_ACCELERATION * dt;
+    alien.vx += (ax / centreDist) * strength;
+    alien.vy += (ay / centreDist) * strength;
+  });
+
+  // Speed Cap
+  const maxSpeed = alien.state === 'FLEEING' ? def.fleeSpeed : def.speed;
+  const alienSpeed = Math.sqrt(alien.vx**2 + alien.vy**2);
+  if (alienSpeed > maxSpeed) {
+    alien.vx = (alien.vx / alienSpeed) * maxSpeed;
+    alien.vy = (alien.vy / alienSpeed) * maxSpeed;
+  }
+
+  alien.x += alien.vx * dt;
+  alien.y += alien.vy * dt;
+
+  // Vampiric Drain: the most valuable ore first, or straight from the tanks
+  if (alien.state === 'DRAINING' && dist < def.drainRange) {
+    alien.drainTimer += dt;
+    if (alien.drainTimer >= def.drainInterval) {
+      if (def.behaviour === 'SIPHON_FUEL') {
+        const amount = Math.min(def.drainAmount, Math.max(0, ship.currentFuel));
+        if (amount > 0) {
+          ship.currentFuel -= amount;
+          alien.stolenFuel += amount;
+          events.push({ type: 'FUEL_SIPHONED', alien, amount });
+        }
+      } else {
+        const availableTypes = (Object.keys(ship.cargo) as MineralType[])
+          .filter(t => ship.cargo[t] > 0)
+          .sort((a, b) => MINERAL_VALUES[b] - MINERAL_VALUES[a]);
+
+        if (availableTypes.length > 0) {
+          const typeToSteal = availableTypes[0];
+          ship.cargo[typeToSteal]--;
+          alien.stolenCargo[typeToSteal] = (alien.stolenCargo[typeToSteal] || 0) + 1;
+          events.push({ type: 'CARGO_STOLEN', alien, mineral: typeToSteal });
+        }
+      }
+      alien.drainTimer = 0;
+    }
+  }
+
+  if (alien.state === 'FLEEING') {
+    alien.warpTimer -= dt;
+    if (alien.warpTimer <= 0) {
+      world.aliens = world.aliens.filter(a => a !== alien);
+      events.push({ type: 'ALIEN_ESCAPED', alien });
+    }
+  }
+};
+
+export const updateEnemies = (world: World, dt: number, events: GameEvent[]) => {
+  spawnEnemies(world, dt, events);
+  // Copy: escapes remove entries mid-loop
+  [...world.aliens].forEach(alien => updateEnemy(world, alien, dt, events));
+};
+
+export const destroyAlien = (world: World, alien: Alien, events: GameEvent[]) => {
+  // Siphoned fuel flows straight back into the tank
+  if (alien.stolenFuel > 0) {
+    const ship = world.ship;
+    ship.currentFuel = Math.min(ship.shipConfig.maxFuel, ship.currentFuel + alien.stolenFuel);
+  }
+
+  // Drop stolen cargo
+  (Object.keys(alien.stolenCargo) as MineralType[]).forEach(type => {
+    const amount = alien.stolenCargo[type] || 0;
+    if (amount > 0) {
+      world.loot.push({
+        id: nextEntityId(world, 'loot'),
+        x: alien.x,
+        y: alien.y,
+        vx: (world.random() - 0.5) * 180,
+        vy: (world.random() - 0.5) * 180,
+        type,
+        amount,
+        life: LOOT_DESPAWN_TIME
+      });
+    }
+  });
+
+  world.aliens = world.aliens.filter(a => a !== alien);
+  events.push({ type: 'ALIEN_DESTROYED', alien });
+};
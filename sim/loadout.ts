@@ -0,0 +1,88 @@
+import { ModuleDef, ModuleId, PlayerState, ShipConfig, UpgradeLevels } from '../types';
+import { INITIAL_SHIP_CONFIG, UPGRADES, MODULES, SHIP_SLOTS, SHIP_MASS, MODULE_RESALE_SHARE } from '../constants';
+
+type Loadout = PlayerState['loadout'];
+
+export const createLoadout = (): Loadout => SHIP_SLOTS.map(kind => (kind === 'HARDPOINT' ? 'mining-laser' : null));
+
+export const findModule = (id: ModuleId): ModuleDef => {
+  const def = MODULES.find(m => m.id === id);
+  if (!def) throw new Error(`Unknown module ${id}`);
+  return def;
+};
+
+export const loadoutMass = (loadout: Loadout): number => {
+  return loadout.reduce((mass, id) => mass + (id ? findModule(id).mass : 0), 0);
+};
+
+// The ship's stats: base config, plus every upgrade level, plus whatever is
+// fitted. Fitted mass then scales acceleration down.
+export const computeShipConfig = (levels: UpgradeLevels, loadout: Loadout): ShipConfig => {
+  const config = { ...INITIAL_SHIP_CONFIG };
+  UPGRADES.forEach(def => { config[def.stat] += def.perLevel * (levels[def.id] || 0); });
+  loadout.forEach(id => {
+    if (!id) return;
+    const effects = findModule(id).effects;
+    (Object.keys(effects) as (keyof ShipConfig)[]).forEach(stat => { config[stat] += effects[stat]!; });
+  });
+  config.acceleration *= SHIP_MASS / (SHIP_MASS + loadoutMass(loadout));
+  return config;
+};
+
+// What the ship would look like with `id` in `slot`, for comparing before buying or fitting
+export const previewFit = (player: PlayerState, slot: number, id: ModuleId | null): ShipConfig => {
+  const loadout = [...player.loadout];
+  loadout[slot] = id;
+  return computeShipConfig(player.upgrades, loadout);
+};
+
+export const resaleValue = (id: ModuleId): number => Math.floor(findModule(id).price * MODULE_RESALE_SHARE);
+
+const withLoadout = (player: PlayerState, loadout: Loadout, modules: ModuleId[], credits: number): PlayerState => {
+  const shipConfig = computeShipConfig(player.upgrades, loadout);
+  return {
+    ...player,
+    credits,
+    loadout,
+    modules,
+    shipConfig,
+    currentFuel: Math.min(player.currentFuel, shipConfig.maxFuel),
+  };
+};
+
+// Bought modules go to the inventory; fitting them is a separate step
+export const buyModule = (player: PlayerState, id: ModuleId): PlayerState => {
+  const def = findModule(id);
+  if (player.credits < def.price) return player;
+  return { ...player, credits: player.credits - def.price, modules: [...player.modules, id] };
+};
+
+export const sellModule = (player: PlayerState, index: number): PlayerState => {
+  const id = player.modules[index];
+  if (!id) return player;
+  return {
+    ...player,
+    credits: player.credits + resaleValue(id),
+    modules: player.modules.filter((_, i) => i !== index),
+  };
+};
+
+// Moves an inventory module into a slot of the same kind; whatever was there goes back to the inventory
+export const fitModule = (player: PlayerState, slot: number, index: number): PlayerState => {
+  const id = player.modules[index];
+  if (!id || findModule(id).slot !== SHIP_SLOTS[slot]) return player;
+  const loadout = [...player.loadout];
+  const removed = loadout[slot];
+  loadout[slot] = id;
+  const modules = player.modules.filter((_, i) => i !== index);
+  if (removed) modules.push(removed);
+  return withLoadout(player, loadout, modules, player.credits);
+};
+
+export const unfitModule = (player: PlayerState, slot: number): PlayerState => {
+  const id = player.loadout[slot];
+  if (!id || SHIP_SLOTS[slot] === 'HARDPOINT') return player;
+  const loadout = [...player.loadout];
+  loadout[slot] = null;
+  return withLoadout(player, loadout, [...player.modules, id], player.credits);
+};
@@ -0,0 +1,74 @@
+import { MarketState, MarketEvent, MineralType } from '../types';
+import { MINERAL_VALUES, MARKET, MARKET_EVENTS } from '../constants';
+import { createRng } from '../utils/random';
+
+const perMineral = (value: () => number): Record<MineralType, number> => {
+  const record = {} as Record<MineralType, number>;
+  Object.values(MineralType).forEach(type => { record[type] = value(); });
+  return record;
+};
+
+export const createMarket = (): MarketState => {
+  const market: MarketState = {
+    day: 0,
+    supply: perMineral(() => 1),
+    event: null,
+    history: {} as MarketState['history'],
+  };
+  Object.values(MineralType).forEach(type => { market.history[type] = [priceOf(market, type)]; });
+  return market;
+};
+
+export const activeEvent = (market: MarketState): MarketEvent | null => {
+  return MARKET_EVENTS.find(e => e.id === market.event?.id) ?? null;
+};
+
+// Credits paid for the next single unit. `buyFactor` is a station's markup on the belt price.
+export const priceOf = (market: MarketState, type: MineralType, buyFactor: number = 1): number => {
+  const demand = activeEvent(market)?.demand[type] ?? 1;
+  return Math.max(1, Math.round(MINERAL_VALUES[type] * demand * market.supply[type] * buyFactor));
+};
+
+// What selling `amount` units would pay, unit by unit as the price slides
+export const quoteSale = (market: MarketState, type: MineralType, amount: number, buyFactor: number = 1): number => {
+  const scratch: MarketState = { ...market, supply: { ...market.supply } };
+  let total = 0;
+  for (let i = 0; i < amount; i++) {
+    total += priceOf(scratch, type, buyFactor);
+    scratch.supply[type] = Math.max(MARKET.MIN_SUPPLY, scratch.supply[type] * (1 - MARKET.SELL_IMPACT));
+  }
+  return total;
+};
+
+export const applySale = (market: MarketState, type: MineralType, amount: number): MarketState => {
+  const supply = { ...market.supply };
+  supply[type] = Math.max(MARKET.MIN_SUPPLY, supply[type] * Math.pow(1 - MARKET.SELL_IMPACT, amount));
+  return { ...market, supply };
+};
+
+// Runs the market forward by the flight that just ended: prices recover,
+// events expire, and a new one may start. Rolls are keyed by the visit number
+// so a campaign's market is reproducible from its seed.
+export const advanceMarket = (market: MarketState, seconds: number, seed: string): MarketState => {
+  const random = createRng(seed, `market-${market.day}`);
+  const recovery = Math.pow(MARKET.RECOVERY, seconds);
+  const supply = perMineral(() => 0);
+  Object.values(MineralType).forEach(type => {
+    supply[type] = 1 - (1 - market.supply[type]) * recovery;
+  });
+
+  let event = market.event && market.event.remaining > seconds
+    ? { ...market.event, remaining: market.event.remaining - seconds }
+    : null;
+  if (!event && random() < 1 - Math.exp(-MARKET.EVENT_RATE * seconds)) {
+    const next = MARKET_EVENTS[Math.floor(random() * MARKET_EVENTS.length)];
+    event = { id: next.id, remaining: next.duration };
+  }
+
+  const advanced: MarketState = { day: market.day + 1, supply, event, history: market.history };
+  const history = {} as MarketState['history'];
+  Object.values(MineralType).forEach(type => {
+    history[type] = [...market.history[type], priceOf(advanced, type)].slice(-MARKET.HISTORY_LENGTH);
+  });
+  return { ...advanced, history };
+};
@@ -0,0 +1,28 @@
+import { Asteroid, Point } from '../types';
+import { ASTEROID_ORBIT } from '../constants';
+
+// Angular speed (rad/s) of a circular orbit at `dist` from the belt centre
+export const orbitalAngularSpeed = (dist: number): number => {
+  const r = Math.max(dist, ASTEROID_ORBIT.MIN_RADIUS);
+  return ASTEROID_ORBIT.ANGULAR_SPEED * Math.pow(ASTEROID_ORBIT.REFERENCE_RADIUS / r, 1.5);
+};
+
+// Orbit carries the rock; `vx`/`vy` only hold drift on top of it
+export const asteroidVelocity = (ast: Asteroid): Point => {
+  const omega = orbitalAngularSpeed(Math.sqrt(ast.x*ast.x + ast.y*ast.y));
+  return {
+    x: -ast.y * omega + ast.vx,
+    y: ast.x * omega + ast.vy,
+  };
+};
+
+// Advances a rock along its orbit by rotating it about the centre, which keeps
+// the radius (and so its band) stable no matter how long the run lasts
+export const advanceOrbit = (ast: Asteroid, dt: number) => {
+  const angle = orbitalAngularSpeed(Math.sqrt(ast.x*ast.x + ast.y*ast.y)) * dt;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const x = ast.x * cos - ast.y * sin;
+  ast.y = ast.x * sin + ast.y * cos;
+  ast.x = x;
+};
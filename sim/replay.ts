@@ -0,0 +1,121 @@
+import { Replay, ReplayOutcome, PackedInput, SimInput, PlayerState, FieldState, Contract, World, GameEvent } from '../types';
+import { SIM_DT } from '../constants';
+import { createWorld } from './world';
+import { step } from './step';
+
+// Bump when a change to the sim means old recordings no longer play out the same
+export const REPLAY_VERSION = 2;
+
+const BUTTONS = ['fire', 'shoot', 'shootSecondary'] as const;
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+const packInput = (input: SimInput): PackedInput => [
+  1,
+  roundTo(input.thrust, 0.01),
+  roundTo(input.rotateLeft, 0.01),
+  roundTo(input.rotateRight, 0.01),
+  roundTo(input.brake, 0.01),
+  BUTTONS.reduce((mask, button, bit) => (input[button] ? mask | (1 << bit) : mask), 0),
+  Math.round(input.aim.x),
+  Math.round(input.aim.y),
+];
+
+const unpackInput = ([, thrust, rotateLeft, rotateRight, brake, buttons, aimX, aimY]: PackedInput): SimInput => ({
+  thrust,
+  rotateLeft,
+  rotateRight,
+  brake,
+  fire: (buttons & 1) !== 0,
+  shoot: (buttons & 2) !== 0,
+  shootSecondary: (buttons & 4) !== 0,
+  aim: { x: aimX, y: aimY },
+});
+
+// Input as a replay stores it. Recording steps the sim with this rather than
+// the raw input, so playback feeds in exactly what the run saw.
+export const quantizeInput = (input: SimInput): SimInput => unpackInput(packInput(input));
+
+export const startRecording = (seed: string, player: PlayerState, field: FieldState | null, contracts: Contract[]): Replay => ({
+  version: REPLAY_VERSION,
+  recordedAt: Date.now(),
+  seed,
+  flight: field?.flights ?? 0,
+  player: structuredClone(player),
+  field: field ? structuredClone(field) : null,
+  contracts: structuredClone(contracts),
+  inputs: [],
+  outcome: null,
+});
+
+export const recordTick = (replay: Replay, input: SimInput) => {
+  const packed = packInput(input);
+  const last = replay.inputs[replay.inputs.length - 1];
+  if (last && last.every((value, i) => i === 0 || value === packed[i])) last[0]++;
+  else replay.inputs.push(packed);
+};
+
+const outcomeOf = (world: World, ending: ReplayOutcome['ending']): ReplayOutcome => ({
+  ticks: world.tick,
+  ending,
+  position: { x: world.ship.position.x, y: world.ship.position.y },
+  fuel: world.ship.currentFuel,
+  hull: world.ship.hull,
+  cargo: { ...world.ship.cargo },
+});
+
+// The ending a tick's events bring, if any
+export const endingOf = (events: GameEvent[]): ReplayOutcome['ending'] => {
+  const ending = events.find(e => e.type === 'DOCKED' || e.type === 'OUT_OF_FUEL' || e.type === 'SHIP_DESTROYED');
+  return ending ? (ending.type as ReplayOutcome['ending']) : null;
+};
+
+export const finishRecording = (replay: Replay, world: World, ending: ReplayOutcome['ending']) => {
+  replay.outcome = outcomeOf(world, ending);
+};
+
+// One input per tick, for random access while scrubbing
+export const expandInputs = (replay: Replay): SimInput[] => {
+  const inputs: SimInput[] = [];
+  replay.inputs.forEach(packed => {
+    const input = unpackInput(packed);
+    for (let i = 0; i < packed[0]; i++) inputs.push(input);
+  });
+  return inputs;
+};
+
+export const createReplayWorld = (replay: Replay): World => createWorld(replay.player, replay.seed, replay.field, replay.contracts, replay.flight);
+
+// Steps `world` along the replay until `tick`, or until the flight ends.
+// Returns the ending if it was reached.
+export const advanceReplay = (world: World, inputs: SimInput[], tick: number): ReplayOutcome['ending'] => {
+  while (world.tick < Math.min(tick, inputs.length)) {
+    const ending = endingOf(step(world, inputs[world.tick], SIM_DT));
+    if (ending) return ending;
+  }
+  return null;
+};
+
+// Plays a whole replay headlessly, e.g. as a regression check after changing physics or prices
+export const runReplay = (replay: Replay): ReplayOutcome => {
+  const world = createReplayWorld(replay);
+  const inputs = expandInputs(replay);
+  return outcomeOf(world, advanceReplay(world, inputs, inputs.length));
+};
+
+// How a fresh run differs from the recorded outcome; empty when they agree
+export const compareOutcome = (expected: ReplayOutcome, actual: ReplayOutcome): string[] => {
+  const differences: string[] = [];
+  const near = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+  if (expected.ticks !== actual.ticks) differences.push(`ticks ${expected.ticks} -> ${actual.ticks}`);
+  if (expected.ending !== actual.ending) differences.push(`ending ${expected.ending} -> ${actual.ending}`);
+  if (!near(expected.position.x, actual.position.x) || !near(expected.position.y, actual.position.y)) {
+    differences.push(`position ${expected.position.x.toFixed(1)},${expected.position.y.toFixed(1)} -> ${actual.position.x.toFixed(1)},${actual.position.y.toFixed(1)}`);
+  }
+  if (!near(expected.fuel, actual.fuel)) differences.push(`fuel ${expected.fuel.toFixed(1)} -> ${actual.fuel.toFixed(1)}`);
+  if (!near(expected.hull, actual.hull)) differences.push(`hull ${expected.hull.toFixed(1)} -> ${actual.hull.toFixed(1)}`);
+  (Object.keys(expected.cargo) as (keyof ReplayOutcome['cargo'])[]).forEach(type => {
+    if (!near(expected.cargo[type], actual.cargo[type] ?? 0)) differences.push(`${type} ${expected.cargo[type]} -> ${actual.cargo[type] ?? 0}`);
+  });
+  return differences;
+};
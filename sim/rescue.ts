@@ -0,0 +1,84 @@
+import { GameOverReason, MineralType, PlayerState, Point, RescueReport, Station } from '../types';
+import { STATIONS, MINERAL_VALUES, REPAIR_COST_PER_HULL, RESCUE } from '../constants';
+
+const distanceTo = (station: Station, position: Point) => Math.sqrt((station.x - position.x)**2 + (station.y - position.y)**2);
+
+const nearestStation = (position: Point): Station => {
+  return STATIONS.reduce((best, station) => (distanceTo(station, position) < distanceTo(best, position) ? station : best));
+};
+
+export const buyInsurance = (player: PlayerState): PlayerState => {
+  if (player.insured || player.credits < RESCUE.INSURANCE_PREMIUM) return player;
+  return { ...player, credits: player.credits - RESCUE.INSURANCE_PREMIUM, insured: true };
+};
+
+// Hauls a stranded or wrecked ship to the nearest station. The tow costs more
+// the further out it was; a wreck also loses its hold and pays to rebuild the
+// hull. A policy pays for everything, lost ore included. Without one, a pilot
+// short of credits pays in ore, most valuable first, and the rest is written off.
+export const rescueShip = (player: PlayerState, reason: GameOverReason): RescueReport => {
+  const station = nearestStation(player.position);
+  const distance = distanceTo(station, player.position);
+  const towFee = Math.round(RESCUE.TOW_BASE_FEE + RESCUE.TOW_FEE_PER_KM * distance / 1000);
+  const repairFee = reason === 'SHIP_DESTROYED' ? Math.ceil((player.maxHull - Math.max(0, player.hull)) * REPAIR_COST_PER_HULL) : 0;
+  const fees = towFee + repairFee;
+
+  const cargo = { ...player.cargo };
+  const cargoLost: RescueReport['cargoLost'] = {};
+  const lossShare = reason === 'SHIP_DESTROYED' ? RESCUE.WRECK_CARGO_LOSS : RESCUE.STRANDED_CARGO_LOSS;
+  let cargoLostValue = 0;
+  (Object.keys(cargo) as MineralType[]).forEach(type => {
+    const lost = lossShare >= 1 ? cargo[type] : Math.floor(cargo[type] * lossShare);
+    if (lost <= 0) return;
+    cargo[type] -= lost;
+    cargoLost[type] = lost;
+    cargoLostValue += lost * MINERAL_VALUES[type];
+  });
+
+  let credits = player.credits;
+  let charged = 0;
+  let writtenOff = 0;
+  let insurancePaid = 0;
+  const cargoSeized: RescueReport['cargoSeized'] = {};
+  if (player.insured) {
+    insurancePaid = fees + cargoLostValue;
+    credits += cargoLostValue;
+  } else {
+    charged = Math.min(Math.max(0, credits), fees);
+    credits -= charged;
+    let owed = fees - charged;
+    const byValue = (Object.keys(cargo) as MineralType[]).sort((a, b) => MINERAL_VALUES[b] - MINERAL_VALUES[a]);
+    for (const type of byValue) {
+      while (owed > 0 && cargo[type] >= 1) {
+        cargo[type]--;
+        cargoSeized[type] = (cargoSeized[type] || 0) + 1;
+        owed -= MINERAL_VALUES[type];
+      }
+    }
+    writtenOff = Math.max(0, owed);
+  }
+
+  return {
+    reason,
+    station,
+    distance,
+    towFee,
+    repairFee,
+    cargoLost,
+    cargoLostValue,
+    cargoSeized,
+    charged,
+    writtenOff,
+    insurancePaid,
+    player: {
+      ...player,
+      credits,
+      cargo,
+      insured: false,
+      hull: reason === 'SHIP_DESTROYED' ? player.maxHull : player.hull,
+      currentFuel: Math.max(player.currentFuel, Math.min(player.shipConfig.maxFuel, RESCUE.TOW_FUEL)),
+      position: { x: station.x, y: station.y },
+      velocity: { x: 0, y: 0 },
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import { Point } from '../types';
+
+export interface SpatialEntity extends Point {
+  radius?: number;
+}
+
+// Cell coordinates packed into one number; good for +/- 32k cells on each axis
+const cellKey = (cx: number, cy: number) => (cx + 32768) * 65536 + (cy + 32768);
+
+// Uniform grid over world space. Entities are bucketed by every cell their
+// bounding circle touches, so queries only look at nearby buckets instead of
+// scanning whole arrays.
+export class SpatialHash<T extends SpatialEntity> {
+  private cells = new Map<number, T[]>();
+  private cellSize: number;
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  clear() {
+    this.cells.clear();
+  }
+
+  rebuild(items: T[]) {
+    this.cells.clear();
+    items.forEach(item => this.insert(item));
+  }
+
+  insert(item: T) {
+    this.forEachCell(item.x, item.y, item.radius || 0, key => {
+      const bucket = this.cells.get(key);
+      if (bucket) bucket.push(item);
+      else this.cells.set(key, [item]);
+    });
+  }
+
+  remove(item: T) {
+    this.forEachCell(item.x, item.y, item.radius || 0, key => {
+      const bucket = this.cells.get(key);
+      if (!bucket) return;
+      const i = bucket.indexOf(item);
+      if (i !== -1) bucket.splice(i, 1);
+    });
+  }
+
+  // Everything whose bounding circle overlaps the query circle
+  queryRadius(x: number, y: number, range: number): T[] {
+    const results: T[] = [];
+    const seen = new Set<T>();
+    this.forEachCell(x, y, range, key => {
+      const bucket = this.cells.get(key);
+      if (!bucket) return;
+      for (const item of bucket) {
+        if (seen.has(item)) continue;
+        seen.add(item);
+        const reach = range + (item.radius || 0);
+        const dx = item.x - x;
+        const dy = item.y - y;
+        if (dx*dx + dy*dy <= reach * reach) results.push(item);
+      }
+    });
+    return results;
+  }
+
+  // Candidates in the cells covering an axis-aligned box (e.g. the viewport)
+  queryRect(minX: number, minY: number, maxX: number, maxY: number): T[] {
+    const results: T[] = [];
+    const seen = new Set<T>();
+    const x0 = Math.floor(minX / this.cellSize);
+    const y0 = Math.floor(minY / this.cellSize);
+    const x1 = Math.floor(maxX / this.cellSize);
+    const y1 = Math.floor(maxY / this.cellSize);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const bucket = this.cells.get(cellKey(cx, cy));
+        if (!bucket) continue;
+        for (const item of bucket) {
+          if (seen.has(item)) continue;
+          seen.add(item);
+          results.push(item);
+        }
+      }
+    }
+    return results;
+  }
+
+  private forEachCell(x: number, y: number, radius: number, fn: (key: number) => void) {
+    const x0 = Math.floor((x - radius) / this.cellSize);
+    const y0 = Math.floor((y - radius) / this.cellSize);
+    const x1 = Math.floor((x + radius) / this.cellSize);
+    const y1 = Math.floor((y + radius) / this.cellSize);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        fn(cellKey(cx, cy));
+      }
+    }
+  }
+}
@@ -0,0 +1,543 @@
+import { World, SimInput, GameEvent, Asteroid, Alien, MineralType, Contract } from '../types';
+import {
+  STATIONS,
+  DOCKING_MARGIN,
+  DOCKING_SPEED,
+  LOOT_COLLECTION_RANGE,
+  LOOT_DESPAWN_TIME,
+  SHIP_DRAG, SHIP_BRAKE, BRAKE_FUEL_SHARE,
+  LOOT_DRAG,
+  FRAGMENT_MIN_RADIUS,
+  FRAGMENT_SCALE,
+  FRAGMENT_HEALTH_SCALE,
+  FRAGMENT_KICK,
+  SHIP_COLLISION_RADIUS,
+  COLLISION_RESTITUTION,
+  COLLISION_SAFE_SPEED,
+  COLLISION_DAMAGE_SCALE,
+  ASTEROID_SPAWN_RADIUS,
+  FIELD_BANDS,
+  FIELD_CHECK_INTERVAL,
+  RESPAWN_MIN_SHIP_DISTANCE,
+  ASTEROID_DRIFT_DRAG,
+  ASTEROID_BLAST,
+  LASER_PUSH,
+  CONTRACTS,
+  CARGO_POD,
+  ALIEN_CONFIG,
+  ENEMIES,
+  WEAPONS,
+  WEAPON_HEAT
+} from '../constants';
+import { cargoTotal, nextEntityId, generateVertices, generateAsteroid, countByBand, findStation } from './world';
+import { circleAsteroidContact } from './collision';
+import { asteroidVelocity, advanceOrbit } from './orbit';
+import { updateEnemies, destroyAlien } from './enemies';
+
+const LASER_NOSE_OFFSET = 30;
+const ALIEN_AIM_ASSIST = 20; // Slack past an enemy's hull that still counts as on target
+const STALL_SPEED = 6; // Below this with no fuel, the ship is stranded
+
+const updateShip = (world: World, input: SimInput, dt: number, events: GameEvent[]) => {
+  const ship = world.ship;
+
+  ship.rotation += (input.rotateRight - input.rotateLeft) * ship.shipConfig.rotationSpeed * dt;
+
+  world.isThrusting = input.thrust > 0 && ship.currentFuel > 0;
+  if (world.isThrusting) {
+    ship.velocity.x += Math.cos(ship.rotation) * ship.shipConfig.acceleration * input.thrust * dt;
+    ship.velocity.y += Math.sin(ship.rotation) * ship.shipConfig.acceleration * input.thrust * dt;
+    ship.currentFuel -= ship.shipConfig.thrustConsumptionRate * input.thrust * dt;
+  }
+
+  // Retro burn: bleeds speed off in every direction, for lining up a dock
+  if (input.brake > 0 && ship.currentFuel > 0) {
+    const brake = Math.pow(SHIP_BRAKE, input.brake * dt);
+    ship.velocity.x *= brake;
+    ship.velocity.y *= brake;
+    ship.currentFuel -= ship.shipConfig.thrustConsumptionRate * BRAKE_FUEL_SHARE * input.brake * dt;
+  }
+
+  // Friction/Space Drag (Newtonian-lite)
+  const drag = Math.pow(SHIP_DRAG, dt);
+  ship.velocity.x *= drag;
+  ship.velocity.y *= drag;
+
+  // Cap speed
+  const speed = Math.sqrt(ship.velocity.x**2 + ship.velocity.y**2);
+  if (speed > ship.shipConfig.maxSpeed) {
+    ship.velocity.x = (ship.velocity.x / speed) * ship.shipConfig.maxSpeed;
+    ship.velocity.y = (ship.velocity.y / speed) * ship.shipConfig.maxSpeed;
+  }
+
+  ship.position.x += ship.velocity.x * dt;
+  ship.position.y += ship.velocity.y * dt;
+
+  world.shield = Math.min(ship.shipConfig.shieldCapacity, world.shield + ship.shipConfig.shieldRegen * dt);
+
+  // Idle Fuel Consumption
+  if (ship.currentFuel > 0) {
+    ship.currentFuel -= ship.shipConfig.fuelConsumptionRate * dt;
+  } else if (Math.abs(ship.velocity.x) < STALL_SPEED && Math.abs(ship.velocity.y) < STALL_SPEED) {
+    events.push({ type: 'OUT_OF_FUEL' });
+  }
+};
+
+// Pushes the ship out of any asteroid it overlaps and bounces it off the hull
+const collideShip = (world: World, events: GameEvent[]) => {
+  const ship = world.ship;
+  // Doubled range: jagged vertices poke up to 20% past an asteroid's nominal radius
+  const nearby = world.asteroidIndex.queryRadius(ship.position.x, ship.position.y, SHIP_COLLISION_RADIUS * 2);
+
+  for (const ast of nearby) {
+    const contact = circleAsteroidContact(ship.position.x, ship.position.y, SHIP_COLLISION_RADIUS, ast);
+    if (!contact) continue;
+
+    ship.position.x += contact.nx * contact.depth;
+    ship.position.y += contact.ny * contact.depth;
+
+    // Rocks are moving too, so what matters is the closing speed between the two
+    const astVelocity = asteroidVelocity(ast);
+    const impactSpeed = -((ship.velocity.x - astVelocity.x) * contact.nx + (ship.velocity.y - astVelocity.y) * contact.ny);
+    if (impactSpeed <= 0) continue; // Already separating
+
+    ship.velocity.x += contact.nx * impactSpeed * (1 + COLLISION_RESTITUTION);
+    ship.velocity.y += contact.ny * impactSpeed * (1 + COLLISION_RESTITUTION);
+
+    const impact = Math.max(0, impactSpeed - COLLISION_SAFE_SPEED) * COLLISION_DAMAGE_SCALE;
+    if (impact > 0) {
+      // The shield takes what it can; the rest reaches the hull
+      const shielded = Math.min(world.shield, impact);
+      const damage = impact - shielded;
+      world.shield -= shielded;
+      ship.hull = Math.max(0, ship.hull - damage);
+      events.push({ type: 'SHIP_COLLISION', asteroid: ast, damage, shielded });
+    }
+  }
+
+  if (ship.hull <= 0) events.push({ type: 'SHIP_DESTROYED' });
+};
+
+// Breaks a big rock into 2-4 smaller ones of the same mineral. Ore is shared
+// by area so the total haul is the same however many pieces it ends up in.
+const fragmentAsteroid = (world: World, parent: Asteroid): Asteroid[] => {
+  const count = 2 + Math.floor(world.random() * 3);
+  const baseAngle = world.random() * Math.PI * 2;
+
+  const fragments: Asteroid[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = baseAngle + (i / count) * Math.PI * 2;
+    const radius = parent.radius * (FRAGMENT_SCALE.MIN + world.random() * (FRAGMENT_SCALE.MAX - FRAGMENT_SCALE.MIN));
+    const kick = FRAGMENT_KICK.MIN + world.random() * (FRAGMENT_KICK.MAX - FRAGMENT_KICK.MIN);
+    const maxHealth = parent.maxHealth * FRAGMENT_HEALTH_SCALE;
+    fragments.push({
+      id: nextEntityId(world, 'frag'),
+      x: parent.x + Math.cos(angle) * parent.radius * 0.5,
+      y: parent.y + Math.sin(angle) * parent.radius * 0.5,
+      vx: parent.vx + Math.cos(angle) * kick,
+      vy: parent.vy + Math.sin(angle) * kick,
+      radius,
+      vertices: generateVertices(radius, world.random),
+      type: parent.type,
+      health: maxHealth,
+      maxHealth,
+      ore: 0,
+      rotation: world.random() * Math.PI * 2,
+      rotationSpeed: parent.rotationSpeed + (world.random() - 0.5) * 1.2,
+      isHeating: false
+    });
+  }
+
+  // Largest-remainder split so the ore adds back up to the parent's
+  const totalArea = fragments.reduce((sum, f) => sum + f.radius * f.radius, 0);
+  const shares = fragments.map(f => parent.ore * (f.radius * f.radius) / totalArea);
+  fragments.forEach((f, i) => { f.ore = Math.floor(shares[i]); });
+  let remainder = parent.ore - fragments.reduce((sum, f) => sum + f.ore, 0);
+  fragments
+    .map((f, i) => ({ f, frac: shares[i] - f.ore }))
+    .sort((a, b) => b.frac - a.frac)
+    .forEach(({ f }) => { if (remainder-- > 0) f.ore++; });
+
+  return fragments;
+};
+
+// Shoves neighbouring rocks away from a breaking one; small rocks fly further
+const applyBlast = (world: World, x: number, y: number) => {
+  world.asteroidIndex.queryRadius(x, y, ASTEROID_BLAST.RANGE).forEach(ast => {
+    const dx = ast.x - x;
+    const dy = ast.y - y;
+    const dist = Math.sqrt(dx*dx + dy*dy);
+    if (dist < 0.0001) return;
+    const falloff = Math.max(0, 1 - dist / (ASTEROID_BLAST.RANGE + ast.radius));
+    const dv = ASTEROID_BLAST.IMPULSE * falloff / (ast.radius * ast.radius);
+    ast.vx += (dx / dist) * dv;
+    ast.vy += (dy / dist) * dv;
+  });
+};
+
+const destroyAsteroid = (world: World, asteroid: Asteroid, events: GameEvent[]) => {
+  world.asteroids = world.asteroids.filter(a => a !== asteroid);
+  world.asteroidIndex.remove(asteroid);
+  applyBlast(world, asteroid.x, asteroid.y);
+
+  // Only the smallest pieces drop loot; anything bigger breaks apart again
+  let fragments: Asteroid[] = [];
+  if (asteroid.radius >= FRAGMENT_MIN_RADIUS && asteroid.ore > 1) {
+    fragments = fragmentAsteroid(world, asteroid);
+    fragments.forEach(f => {
+      world.asteroids.push(f);
+      world.asteroidIndex.insert(f);
+    });
+  } else if (asteroid.ore > 0) {
+    world.loot.push({
+      id: nextEntityId(world, 'loot'),
+      x: asteroid.x,
+      y: asteroid.y,
+      vx: (world.random() - 0.5) * 90,
+      vy: (world.random() - 0.5) * 90,
+      type: asteroid.type,
+      amount: asteroid.ore,
+      life: LOOT_DESPAWN_TIME
+    });
+  }
+
+  events.push({ type: 'ASTEROID_DESTROYED', asteroid, fragments });
+};
+
+const updateLaser = (world: World, input: SimInput, dt: number, events: GameEvent[]) => {
+  const ship = world.ship;
+  world.beam = null;
+  world.asteroids.forEach(ast => { ast.isHeating = false; });
+
+  if (!input.fire || ship.currentFuel <= 0) return;
+
+  const lx = ship.position.x + Math.cos(ship.rotation) * LASER_NOSE_OFFSET;
+  const ly = ship.position.y + Math.sin(ship.rotation) * LASER_NOSE_OFFSET;
+
+  // An enemy under the cursor takes the beam ahead of any rock, nearest the cursor first.
+  // It's no weapon, but it still stings enough to make them jink.
+  let alien: Alien | null = null;
+  let bestAim = Infinity;
+  world.aliens.forEach(candidate => {
+    const alienDist = Math.sqrt((candidate.x - lx)**2 + (candidate.y - ly)**2);
+    const aimDist = Math.sqrt((input.aim.x - candidate.x)**2 + (input.aim.y - candidate.y)**2);
+    if (aimDist < ENEMIES[candidate.kind].radius + ALIEN_AIM_ASSIST && alienDist < ship.shipConfig.miningRange && aimDist < bestAim) {
+      alien = candidate;
+      bestAim = aimDist;
+    }
+  });
+  if (alien) {
+    const target: Alien = alien;
+    ship.currentFuel -= ship.shipConfig.thrustConsumptionRate * 0.5 * dt;
+    world.beam = { target: 'ALIEN', x: target.x, y: target.y, enemy: target.kind };
+    damageAlien(world, target, ship.shipConfig.miningPower * dt, events);
+    return;
+  }
+
+  // Mine the rocks under the cursor. A wide beam sweeps every rock near the aim point.
+  // The beam ends on the rock nearest the aim point; a narrow one stops there.
+  const width = ship.shipConfig.beamWidth;
+  const aimDist = (ast: Asteroid) => Math.sqrt((ast.x - input.aim.x)**2 + (ast.y - input.aim.y)**2) - ast.radius; // To the surface
+  const inRange = world.asteroidIndex.queryRadius(input.aim.x, input.aim.y, width)
+    .filter(ast => Math.sqrt((ast.x - ship.position.x)**2 + (ast.y - ship.position.y)**2) <= ship.shipConfig.miningRange)
+    .sort((a, b) => aimDist(a) - aimDist(b));
+  if (inRange.length === 0) return;
+  const targets = width <= 0 ? inRange.slice(0, 1) : inRange;
+
+  ship.currentFuel -= ship.shipConfig.thrustConsumptionRate * 0.5 * dt;
+  world.beam = { target: 'ASTEROID', x: targets[0].x, y: targets[0].y };
+
+  targets.forEach(target => {
+    target.isHeating = true;
+    target.health -= ship.shipConfig.miningPower * dt;
+
+    // Beam pressure slowly pushes the target away from the ship
+    const bx = target.x - ship.position.x;
+    const by = target.y - ship.position.y;
+    const beamLength = Math.sqrt(bx*bx + by*by) || 1;
+    const push = LASER_PUSH / (target.radius * target.radius) * dt;
+    target.vx += (bx / beamLength) * push;
+    target.vy += (by / beamLength) * push;
+
+    if (target.health <= 0) destroyAsteroid(world, target, events);
+  });
+};
+
+// Cools the guns, then fires whichever triggers are held and ready
+const updateWeapons = (world: World, input: SimInput, dt: number, events: GameEvent[]) => {
+  const ship = world.ship;
+  const config = ship.shipConfig;
+
+  world.heat = Math.max(0, world.heat - config.coolingRate * dt);
+  if (world.overheated && world.heat <= config.heatCapacity * WEAPON_HEAT.RESUME_SHARE) world.overheated = false;
+
+  Object.values(WEAPONS).forEach(def => {
+    world.weaponCooldowns[def.id] = Math.max(0, world.weaponCooldowns[def.id] - dt);
+    const pulled = def.trigger === 'PRIMARY' ? input.shoot : input.shootSecondary;
+    if (!pulled || world.overheated || world.weaponCooldowns[def.id] > 0 || ship.currentFuel <= 0) return;
+
+    const nx = ship.position.x + Math.cos(ship.rotation) * LASER_NOSE_OFFSET;
+    const ny = ship.position.y + Math.sin(ship.rotation) * LASER_NOSE_OFFSET;
+    const angle = Math.atan2(input.aim.y - ny, input.aim.x - nx);
+    world.projectiles.push({
+      id: nextEntityId(world, 'shot'),
+      weapon: def.id,
+      x: nx,
+      y: ny,
+      vx: ship.velocity.x + Math.cos(angle) * def.speed,
+      vy: ship.velocity.y + Math.sin(angle) * def.speed,
+      life: def.life,
+    });
+    world.weaponCooldowns[def.id] = def.cooldown;
+    world.heat += def.heat;
+    ship.currentFuel -= def.fuelCost;
+    events.push({ type: 'WEAPON_FIRED', weapon: def.id });
+
+    if (world.heat >= config.heatCapacity) {
+      world.overheated = true;
+      events.push({ type: 'WEAPON_OVERHEATED' });
+    }
+  });
+};
+
+const damageAlien = (world: World, alien: Alien, damage: number, events: GameEvent[]) => {
+  alien.hp -= damage;
+  // Getting shot makes it jink sideways for a moment
+  if (alien.evadeTimer <= 0) alien.evadeSide = world.random() < 0.5 ? -1 : 1;
+  alien.evadeTimer = ALIEN_CONFIG.EVADE_TIME;
+  if (alien.hp <= 0) destroyAlien(world, alien, events);
+};
+
+const damageAsteroid = (world: World, asteroid: Asteroid, damage: number, events: GameEvent[]) => {
+  asteroid.health -= damage;
+  if (asteroid.health <= 0) destroyAsteroid(world, asteroid, events);
+};
+
+// Rounds fly straight and burst on the first enemy or rock they touch.
+// Torpedoes splash everything inside their blast radius.
+const updateProjectiles = (world: World, dt: number, events: GameEvent[]) => {
+  const damageScale = world.ship.shipConfig.weaponDamage;
+
+  world.projectiles = world.projectiles.filter(shot => {
+    const def = WEAPONS[shot.weapon];
+    shot.x += shot.vx * dt;
+    shot.y += shot.vy * dt;
+    shot.life -= dt;
+    if (shot.life <= 0) return false;
+
+    const alien = world.aliens.find(a => (a.x - shot.x)**2 + (a.y - shot.y)**2 < (ENEMIES[a.kind].radius + def.radius)**2);
+    const rock = alien ? undefined : world.asteroidIndex.queryRadius(shot.x, shot.y, def.radius)[0];
+    if (!alien && !rock) return true;
+
+    const damage = def.damage * damageScale;
+    if (def.blastRadius > 0) {
+      world.aliens
+        .filter(a => (a.x - shot.x)**2 + (a.y - shot.y)**2 < (def.blastRadius + ENEMIES[a.kind].radius)**2)
+        .forEach(a => damageAlien(world, a, damage, events));
+      world.asteroidIndex.queryRadius(shot.x, shot.y, def.blastRadius).forEach(a => damageAsteroid(world, a, damage, events));
+      applyBlast(world, shot.x, shot.y);
+    } else if (alien) {
+      damageAlien(world, alien, damage, events);
+    } else if (rock) {
+      damageAsteroid(world, rock, damage, events);
+    }
+    events.push({ type: 'PROJECTILE_HIT', projectile: shot });
+    return false;
+  });
+};
+
+const updateLoot = (world: World, dt: number, events: GameEvent[]) => {
+  const ship = world.ship;
+  const drag = Math.pow(LOOT_DRAG, dt);
+
+  world.loot.forEach(loot => {
+    loot.x += loot.vx * dt;
+    loot.y += loot.vy * dt;
+    loot.vx *= drag;
+    loot.vy *= drag;
+    loot.life -= dt;
+  });
+  world.lootIndex.rebuild(world.loot);
+
+  world.lootIndex.queryRadius(ship.position.x, ship.position.y, LOOT_COLLECTION_RANGE).forEach(loot => {
+    if (loot.life <= 0) return;
+    if (cargoTotal(ship.cargo) + loot.amount <= ship.shipConfig.maxCargo) {
+      ship.cargo[loot.type] = (ship.cargo[loot.type] || 0) + loot.amount;
+      loot.life = 0; // Remove
+      events.push({ type: 'LOOT_COLLECTED', loot });
+    } else {
+      events.push({ type: 'CARGO_FULL', loot });
+    }
+  });
+  world.loot = world.loot.filter(l => l.life > 0);
+  world.lootIndex.rebuild(world.loot);
+};
+
+// Depleted bands slowly reseed towards their starting population. Counting is
+// O(n), so it only happens every FIELD_CHECK_INTERVAL seconds.
+const updateField = (world: World, dt: number) => {
+  world.fieldCheckTimer -= dt;
+  if (world.fieldCheckTimer > 0) return;
+  world.fieldCheckTimer += FIELD_CHECK_INTERVAL;
+
+  const counts = countByBand(world.asteroids);
+  FIELD_BANDS.forEach((band, i) => {
+    if (counts[i] >= world.bandTargets[i]) {
+      world.respawnTimers[i] = 0;
+      return;
+    }
+    world.respawnTimers[i] += FIELD_CHECK_INTERVAL;
+    if (world.respawnTimers[i] < band.respawnInterval) return;
+
+    const minDist = Math.max(band.minDist, ASTEROID_SPAWN_RADIUS);
+    const asteroid = generateAsteroid(nextEntityId(world, 'rock'), world.random, minDist, band.maxDist);
+    const dx = asteroid.x - world.ship.position.x;
+    const dy = asteroid.y - world.ship.position.y;
+    if (dx*dx + dy*dy < RESPAWN_MIN_SHIP_DISTANCE * RESPAWN_MIN_SHIP_DISTANCE) return; // Try again next check
+
+    world.asteroids.push(asteroid);
+    world.asteroidIndex.insert(asteroid);
+    world.respawnTimers[i] = 0;
+  });
+};
+
+// Escort pods trail the ship while it stays within tow range and take damage
+// whenever a saucer hovers close by
+const updatePods = (world: World, dt: number) => {
+  const ship = world.ship;
+  const drag = Math.pow(CARGO_POD.DRAG, dt);
+
+  world.pods.forEach(pod => {
+    const dist = Math.sqrt((ship.position.x - pod.x)**2 + (ship.position.y - pod.y)**2);
+    pod.towed = dist < CARGO_POD.TOW_RANGE;
+    if (pod.towed) {
+      const tx = ship.position.x - Math.cos(ship.rotation) * CARGO_POD.FOLLOW_DISTANCE;
+      const ty = ship.position.y - Math.sin(ship.rotation) * CARGO_POD.FOLLOW_DISTANCE;
+      const angle = Math.atan2(ty - pod.y, tx - pod.x);
+      const pull = Math.min(1, Math.sqrt((tx - pod.x)**2 + (ty - pod.y)**2) / CARGO_POD.FOLLOW_DISTANCE);
+      pod.vx += Math.cos(angle) * CARGO_POD.ACCELERATION * pull * dt;
+      pod.vy += Math.sin(angle) * CARGO_POD.ACCELERATION * pull * dt;
+    }
+
+    pod.vx *= drag;
+    pod.vy *= drag;
+    const speed = Math.sqrt(pod.vx**2 + pod.vy**2);
+    if (speed > CARGO_POD.MAX_SPEED) {
+      pod.vx = (pod.vx / speed) * CARGO_POD.MAX_SPEED;
+      pod.vy = (pod.vy / speed) * CARGO_POD.MAX_SPEED;
+    }
+    pod.x += pod.vx * dt;
+    pod.y += pod.vy * dt;
+
+    world.aliens.forEach(alien => {
+      if (alien.state === 'DRAINING' && Math.sqrt((alien.x - pod.x)**2 + (alien.y - pod.y)**2) < ENEMIES[alien.kind].drainRange) {
+        pod.hp = Math.max(0, pod.hp - CARGO_POD.ALIEN_DAMAGE * dt);
+      }
+    });
+  });
+};
+
+// Ticks deadlines and checks in-flight objectives. Deliveries are only handed
+// over on docking (see settleContracts), so here they can only run out of time.
+const updateContracts = (world: World, dt: number, events: GameEvent[]) => {
+  const kills = events.flatMap(e => (e.type === 'ALIEN_DESTROYED' ? [e.alien.kind] : []));
+  const ship = world.ship;
+
+  const finish = (contract: Contract, status: 'COMPLETE' | 'FAILED') => {
+    contract.status = status;
+    world.pods = world.pods.filter(p => p.id !== contract.id);
+    events.push({ type: status === 'COMPLETE' ? 'CONTRACT_COMPLETED' : 'CONTRACT_FAILED', contract });
+  };
+
+  world.contracts.forEach(contract => {
+    if (contract.status !== 'ACTIVE') return;
+    contract.timeLeft = Math.max(0, contract.timeLeft - dt);
+    const objective = contract.objective;
+
+    switch (objective.kind) {
+      case 'BOUNTY':
+        objective.kills = Math.min(objective.required, objective.kills + kills.filter(kind => kind === objective.target).length);
+        if (objective.kills >= objective.required) finish(contract, 'COMPLETE');
+        break;
+      case 'SURVEY': {
+        const dist = Math.sqrt((ship.position.x - objective.x)**2 + (ship.position.y - objective.y)**2);
+        if (dist < CONTRACTS.SURVEY_RADIUS) finish(contract, 'COMPLETE');
+        break;
+      }
+      case 'ESCORT': {
+        const pod = world.pods.find(p => p.id === contract.id);
+        if (!pod || pod.hp <= 0) {
+          finish(contract, 'FAILED');
+          break;
+        }
+        // Delivered once the pod reaches the station, or the ship reaches it with the pod in tow
+        const destination = findStation(objective.destinationId);
+        const range = destination.radius + DOCKING_MARGIN;
+        const podDist = Math.sqrt((pod.x - destination.x)**2 + (pod.y - destination.y)**2);
+        const shipDist = Math.sqrt((ship.position.x - destination.x)**2 + (ship.position.y - destination.y)**2);
+        if (podDist < range || (pod.towed && shipDist < range)) finish(contract, 'COMPLETE');
+        break;
+      }
+    }
+
+    if (contract.status === 'ACTIVE' && contract.timeLeft <= 0) finish(contract, 'FAILED');
+  });
+};
+
+// Orbit plus any drift from blasts and the beam; drift bleeds off so nudged
+// rocks settle back into the belt
+const updateAsteroids = (world: World, dt: number) => {
+  const drag = Math.pow(ASTEROID_DRIFT_DRAG, dt);
+  world.asteroids.forEach(ast => {
+    advanceOrbit(ast, dt);
+    ast.x += ast.vx * dt;
+    ast.y += ast.vy * dt;
+    ast.vx *= drag;
+    ast.vy *= drag;
+    ast.rotation += ast.rotationSpeed * dt;
+  });
+};
+
+const checkDocking = (world: World, events: GameEvent[]) => {
+  const ship = world.ship;
+  const speed = Math.sqrt(ship.velocity.x**2 + ship.velocity.y**2);
+  if (speed >= DOCKING_SPEED) return;
+
+  const station = STATIONS.find(s => {
+    const dx = ship.position.x - s.x;
+    const dy = ship.position.y - s.y;
+    return Math.sqrt(dx*dx + dy*dy) < s.radius + DOCKING_MARGIN;
+  });
+  if (station) events.push({ type: 'DOCKED', station });
+};
+
+// Advances the world by `dt` seconds and reports what happened. Pure game rules:
+// no DOM, canvas or audio. Callers should pass the fixed SIM_DT so results don't
+// depend on frame rate. DOCKED, OUT_OF_FUEL and SHIP_DESTROYED end the run, so
+// the caller should stop stepping once it sees one.
+export const step = (world: World, input: SimInput, dt: number): GameEvent[] => {
+  const events: GameEvent[] = [];
+
+  world.tick++;
+  world.asteroidIndex.rebuild(world.asteroids);
+
+  updateShip(world, input, dt, events);
+  if (events.length > 0) return events;
+
+  collideShip(world, events);
+  if (events.some(e => e.type === 'SHIP_DESTROYED')) return events;
+
+  updateEnemies(world, dt, events);
+  updateWeapons(world, input, dt, events);
+  updateProjectiles(world, dt, events);
+  updateLaser(world, input, dt, events);
+  updateLoot(world, dt, events);
+  updateField(world, dt);
+  updatePods(world, dt);
+  updateContracts(world, dt, events);
+
+  updateAsteroids(world, dt);
+
+  checkDocking(world, events);
+  return events;
+};
@@ -0,0 +1,82 @@
+import { PlayerState, ShipConfig, UpgradeDef, UpgradeId, UpgradeLevels } from '../types';
+import { UPGRADES, UPGRADE_COST_MULTIPLIER, UPGRADE_REFUND_SHARE, UPGRADE_RESPEC_SHARE } from '../constants';
+import { computeShipConfig } from './loadout';
+
+export const createUpgradeLevels = (): UpgradeLevels => {
+  const levels = {} as UpgradeLevels;
+  UPGRADES.forEach(def => { levels[def.id] = 0; });
+  return levels;
+};
+
+export const findUpgrade = (id: UpgradeId): UpgradeDef => {
+  const def = UPGRADES.find(u => u.id === id);
+  if (!def) throw new Error(`Unknown upgrade ${id}`);
+  return def;
+};
+
+// Price of going from `level` to `level + 1`
+export const upgradeCost = (def: UpgradeDef, level: number): number => {
+  return Math.floor(def.baseCost * Math.pow(UPGRADE_COST_MULTIPLIER, level));
+};
+
+export const refundValue = (def: UpgradeDef, level: number): number => {
+  return level > 0 ? Math.floor(upgradeCost(def, level - 1) * UPGRADE_REFUND_SHARE) : 0;
+};
+
+export const respecValue = (levels: UpgradeLevels): number => {
+  let total = 0;
+  UPGRADES.forEach(def => {
+    for (let level = 0; level < (levels[def.id] || 0); level++) total += upgradeCost(def, level);
+  });
+  return Math.floor(total * UPGRADE_RESPEC_SHARE);
+};
+
+// Prerequisites this upgrade still needs, e.g. "ION THRUSTERS 2"
+export const missingRequirements = (def: UpgradeDef, levels: UpgradeLevels): string[] => {
+  return def.requires
+    .filter(req => (levels[req.id] || 0) < req.level)
+    .map(req => `${findUpgrade(req.id).name} ${req.level}`);
+};
+
+// Installed upgrades that would lose a prerequisite if `def` dropped a level
+export const blockingDependents = (def: UpgradeDef, levels: UpgradeLevels): string[] => {
+  const level = levels[def.id] || 0;
+  return UPGRADES
+    .filter(u => (levels[u.id] || 0) > 0 && u.requires.some(req => req.id === def.id && req.level >= level))
+    .map(u => u.name);
+};
+
+const withLevels = (player: PlayerState, upgrades: UpgradeLevels, credits: number): PlayerState => {
+  const shipConfig = computeShipConfig(upgrades, player.loadout);
+  return {
+    ...player,
+    credits,
+    upgrades,
+    shipConfig,
+    currentFuel: Math.min(player.currentFuel, shipConfig.maxFuel),
+  };
+};
+
+// What the ship would look like one level further along `id`, with its current loadout
+export const previewUpgrade = (player: PlayerState, id: UpgradeId): ShipConfig => {
+  return computeShipConfig({ ...player.upgrades, [id]: (player.upgrades[id] || 0) + 1 }, player.loadout);
+};
+
+export const buyUpgrade = (player: PlayerState, id: UpgradeId): PlayerState => {
+  const def = findUpgrade(id);
+  const level = player.upgrades[id] || 0;
+  const cost = upgradeCost(def, level);
+  if (level >= def.maxLevel || player.credits < cost || missingRequirements(def, player.upgrades).length > 0) return player;
+  return withLevels(player, { ...player.upgrades, [id]: level + 1 }, player.credits - cost);
+};
+
+export const refundUpgrade = (player: PlayerState, id: UpgradeId): PlayerState => {
+  const def = findUpgrade(id);
+  const level = player.upgrades[id] || 0;
+  if (level <= 0 || blockingDependents(def, player.upgrades).length > 0) return player;
+  return withLevels(player, { ...player.upgrades, [id]: level - 1 }, player.credits + refundValue(def, level));
+};
+
+export const respecUpgrades = (player: PlayerState): PlayerState => {
+  return withLevels(player, createUpgradeLevels(), player.credits + respecValue(player.upgrades));
+};
@@ -0,0 +1,178 @@
+import { World, PlayerState, Asteroid, Loot, Point, MineralType, FieldBand, FieldState, Station, Contract, CargoPod } from '../types';
+import { ASTEROID_SPAWN_RADIUS, ASTEROID_COUNT, WORLD_BOUNDS, SPATIAL_CELL_SIZE, FIELD_BANDS, STATIONS } from '../constants';
+import { createRng, Rng } from '../utils/random';
+import { SpatialHash } from './spatial';
+
+export const cargoTotal = (cargo: PlayerState['cargo']): number => {
+  return (Object.values(cargo) as number[]).reduce((a, b) => a + b, 0);
+};
+
+// Unknown ids (e.g. a station removed since the save was made) fall back to home
+export const findStation = (id: string): Station => {
+  return STATIONS.find(s => s.id === id) ?? STATIONS[0];
+};
+
+export const nextEntityId = (world: World, prefix: string): string => {
+  return `${prefix}-${world.nextId++}`;
+};
+
+// Jagged outline in local space, 6-11 points within 0.8-1.2x of the radius
+export const generateVertices = (radius: number, random: Rng): Point[] => {
+  const vertices: Point[] = [];
+  const numVerts = 6 + Math.floor(random() * 6);
+  for (let v = 0; v < numVerts; v++) {
+    const vAngle = (v / numVerts) * Math.PI * 2;
+    const rOffset = radius * (0.8 + random() * 0.4);
+    vertices.push({
+      x: Math.cos(vAngle) * rOffset,
+      y: Math.sin(vAngle) * rOffset
+    });
+  }
+  return vertices;
+};
+
+export const bandIndexFor = (dist: number): number => {
+  return FIELD_BANDS.findIndex(band => dist >= band.minDist && dist < band.maxDist);
+};
+
+// Picks a mineral from the band's weights using one roll in [0, 1)
+export const rollMineral = (band: FieldBand, rand: number): MineralType => {
+  let cumulative = 0;
+  for (const type of Object.values(MineralType)) {
+    cumulative += band.mix[type] || 0;
+    if (rand < cumulative) return type;
+  }
+  return MineralType.IRON;
+};
+
+export const generateAsteroid = (
+  id: string,
+  random: Rng,
+  minDist: number = ASTEROID_SPAWN_RADIUS,
+  maxDist: number = WORLD_BOUNDS
+): Asteroid => {
+  const angle = random() * Math.PI * 2;
+  const dist = minDist + random() * (maxDist - minDist);
+  const x = Math.cos(angle) * dist;
+  const y = Math.sin(angle) * dist;
+
+  // Determine type based on distance rarity
+  const band = FIELD_BANDS[bandIndexFor(dist)] ?? FIELD_BANDS[FIELD_BANDS.length - 1];
+  const type = rollMineral(band, random());
+
+  const radius = 20 + random() * 40;
+  const vertices = generateVertices(radius, random);
+
+  return {
+    id,
+    x, y,
+    vx: (random() - 0.5) * 30,
+    vy: (random() - 0.5) * 30,
+    radius,
+    vertices,
+    type,
+    health: 100,
+    maxHealth: 100,
+    ore: Math.floor(radius / 5),
+    rotation: random() * Math.PI * 2,
+    rotationSpeed: (random() - 0.5) * 1.2,
+    isHeating: false
+  };
+};
+
+export const countByBand = (asteroids: Asteroid[]): number[] => {
+  const counts = FIELD_BANDS.map(() => 0);
+  asteroids.forEach(ast => {
+    const band = bandIndexFor(Math.sqrt(ast.x*ast.x + ast.y*ast.y));
+    if (band !== -1) counts[band]++;
+  });
+  return counts;
+};
+
+// The same seed always yields the same belt: positions, types and vertices.
+// Each band's starting population becomes the level it regrows towards.
+export const generateField = (seed: string): FieldState => {
+  const random = createRng(seed, 'field');
+  const asteroids: Asteroid[] = [];
+  for (let i = 0; i < ASTEROID_COUNT; i++) {
+    asteroids.push(generateAsteroid(`ast-${i}`, random));
+  }
+  return {
+    asteroids,
+    bandTargets: countByBand(asteroids),
+    respawnTimers: FIELD_BANDS.map(() => 0),
+    nextId: 0,
+    flights: 0,
+  };
+};
+
+// Snapshot of the belt to hand back to the campaign when the run ends
+export const extractField = (world: World): FieldState => ({
+  asteroids: world.asteroids.map(ast => ({ ...ast, isHeating: false })),
+  bandTargets: [...world.bandTargets],
+  respawnTimers: [...world.respawnTimers],
+  nextId: world.nextId,
+  flights: world.flight + 1,
+});
+
+// Active contracts with escort pods written back to where the flight left them
+export const extractContracts = (world: World): Contract[] => {
+  return world.contracts.map(contract => {
+    const pod = world.pods.find(p => p.id === contract.id);
+    if (!pod || contract.objective.kind !== 'ESCORT') return contract;
+    return { ...contract, objective: { ...contract.objective, pod: { x: pod.x, y: pod.y, hp: pod.hp } } };
+  });
+};
+
+// Builds a world around a launching player, continuing an existing belt when one
+// is given. Inputs are copied so the simulation never mutates React state directly.
+// Each sortie into the belt draws from its own stream, so no two play out alike.
+export const createWorld = (
+  player: PlayerState,
+  seed: string,
+  field: FieldState | null = null,
+  contracts: Contract[] = [],
+  flight = field?.flights ?? 0
+): World => {
+  const state = field ? structuredClone(field) : generateField(seed);
+  const pods: CargoPod[] = [];
+  contracts.forEach(contract => {
+    if (contract.status !== 'ACTIVE' || contract.objective.kind !== 'ESCORT') return;
+    const { x, y, hp } = contract.objective.pod;
+    pods.push({ id: contract.id, x, y, vx: 0, vy: 0, hp, towed: false });
+  });
+  const asteroids = state.asteroids;
+  const asteroidIndex = new SpatialHash<Asteroid>(SPATIAL_CELL_SIZE);
+  asteroidIndex.rebuild(asteroids);
+
+  return {
+    ship: {
+      ...player,
+      cargo: { ...player.cargo },
+      position: { ...player.position },
+      velocity: { ...player.velocity },
+    },
+    asteroids,
+    aliens: [],
+    loot: [],
+    projectiles: [],
+    pods,
+    contracts: structuredClone(contracts),
+    asteroidIndex,
+    lootIndex: new SpatialHash<Loot>(SPATIAL_CELL_SIZE),
+    tick: 0,
+    nextId: state.nextId,
+    bandTargets: state.bandTargets,
+    respawnTimers: state.respawnTimers,
+    fieldCheckTimer: 0,
+    isThrusting: false,
+    beam: null,
+    shield: player.shipConfig.shieldCapacity,
+    heat: 0,
+    overheated: false,
+    weaponCooldowns: { cannon: 0, torpedo: 0 },
+    seed,
+    flight,
+    random: createRng(seed, `play-${flight}`),
+  };
+};
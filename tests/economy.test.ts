@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { MineralType } from '../types';
+import { INITIAL_SHIP_CONFIG, MARKET, STATIONS } from '../constants';
+import { createMarket, priceOf, quoteSale, applySale, advanceMarket } from '../sim/market';
+import { createContractBoard, settleContracts } from '../sim/contracts';
+import { buyUpgrade, refundUpgrade, respecUpgrades, createUpgradeLevels } from '../sim/upgrades';
+import { computeShipConfig, createLoadout } from '../sim/loadout';
+import { rescueShip } from '../sim/rescue';
+import { createTestPlayer, createTestContract } from './fixtures';
+
+const withCargo = (cargo: Partial<Record<MineralType, number>>) => ({
+  [MineralType.IRON]: 0,
+  [MineralType.SILICON]: 0,
+  [MineralType.GOLD]: 0,
+  [MineralType.KRONOS]: 0,
+  ...cargo,
+});
+
+describe('market', () => {
+  it('prices from base value, station markup and supply', () => {
+    const market = createMarket();
+    expect(priceOf(market, MineralType.GOLD)).toBe(100);
+    expect(priceOf(market, MineralType.GOLD, 1.2)).toBe(120);
+    // Each unit sold knocks SELL_IMPACT off the next
+    expect(quoteSale(market, MineralType.GOLD, 3)).toBe(100 + 96 + 92);
+  });
+
+  it('lowers prices as ore is sold, down to the supply floor', () => {
+    const sold = applySale(createMarket(), MineralType.GOLD, 3);
+    expect(sold.supply[MineralType.GOLD]).toBeCloseTo(Math.pow(1 - MARKET.SELL_IMPACT, 3));
+    expect(priceOf(sold, MineralType.GOLD)).toBe(88);
+
+    const flooded = applySale(createMarket(), MineralType.IRON, 500);
+    expect(flooded.supply[MineralType.IRON]).toBe(MARKET.MIN_SUPPLY);
+    expect(priceOf(flooded, MineralType.IRON)).toBe(4);
+  });
+
+  it('recovers towards base price with flight time, the same way every time', () => {
+    const flooded = applySale(createMarket(), MineralType.GOLD, 500);
+    const recovered = advanceMarket(flooded, 60, 'market');
+    expect(recovered.day).toBe(1);
+    expect(recovered.supply[MineralType.GOLD]).toBeCloseTo(1 - (1 - MARKET.MIN_SUPPLY) * Math.pow(MARKET.RECOVERY, 60));
+    expect(recovered.history[MineralType.GOLD]).toHaveLength(2);
+    expect(advanceMarket(flooded, 60, 'market')).toEqual(recovered);
+
+    const rested = advanceMarket(flooded, 3600, 'market');
+    expect(rested.supply[MineralType.GOLD]).toBeGreaterThan(0.99);
+  });
+});
+
+describe('settleContracts', () => {
+  const home = STATIONS[0];
+
+  it('hands over deliveries due here, pays out finished contracts and charges for failed ones', () => {
+    const board = {
+      ...createContractBoard(),
+      active: [
+        createTestContract({ kind: 'DELIVERY', mineral: MineralType.IRON, amount: 5 }, { id: 'contract-0', issuerId: home.id, reward: 500 }),
+        createTestContract({ kind: 'DELIVERY', mineral: MineralType.IRON, amount: 2 }, { id: 'contract-1', issuerId: 'silica-depot' }),
+        createTestContract({ kind: 'BOUNTY', target: 'saucer', kills: 0, required: 2 }, { id: 'contract-2', status: 'FAILED', penalty: 150 }),
+        createTestContract({ kind: 'SURVEY', x: 0, y: 2000 }, { id: 'contract-3', status: 'COMPLETE', reward: 300 }),
+      ],
+    };
+    const player = createTestPlayer({ credits: 100, cargo: withCargo({ [MineralType.IRON]: 8 }) });
+
+    const settled = settleContracts(board, player, home);
+    expect(settled.player.credits).toBe(100 + 500 - 150 + 300);
+    expect(settled.player.cargo[MineralType.IRON]).toBe(3);
+    expect(settled.board.active.map(c => c.id)).toEqual(['contract-1']);
+    expect(settled.board.log.map(c => c.id).sort()).toEqual(['contract-0', 'contract-2', 'contract-3']);
+    expect(settled.board.log.find(c => c.id === 'contract-0')?.status).toBe('COMPLETE');
+  });
+
+  it('leaves a delivery active while the hold is short', () => {
+    const board = { ...createContractBoard(), active: [createTestContract({ kind: 'DELIVERY', mineral: MineralType.GOLD, amount: 4 })] };
+    const settled = settleContracts(board, createTestPlayer({ cargo: withCargo({ [MineralType.GOLD]: 3 }) }), home);
+    expect(settled.board.active).toHaveLength(1);
+    expect(settled.player.cargo[MineralType.GOLD]).toBe(3);
+  });
+
+  it('never takes credits below zero for a penalty', () => {
+    const board = { ...createContractBoard(), active: [createTestContract({ kind: 'SURVEY', x: 0, y: 0 }, { status: 'FAILED', penalty: 150 })] };
+    expect(settleContracts(board, createTestPlayer({ credits: 50 }), home).player.credits).toBe(0);
+  });
+});
+
+describe('upgrades', () => {
+  it('charges a rising price per level and applies the stat', () => {
+    const once = buyUpgrade(createTestPlayer({ credits: 1000 }), 'thrusters');
+    expect(once.credits).toBe(800);
+    expect(once.upgrades.thrusters).toBe(1);
+    expect(once.shipConfig.acceleration).toBe(INITIAL_SHIP_CONFIG.acceleration + 72);
+
+    const twice = buyUpgrade(once, 'thrusters');
+    expect(twice.credits).toBe(800 - 360);
+    expect(buyUpgrade(createTestPlayer({ credits: 199 }), 'thrusters').upgrades.thrusters).toBe(0);
+  });
+
+  it('holds back upgrades until their prerequisites are met', () => {
+    const player = buyUpgrade(createTestPlayer({ credits: 5000 }), 'thrusters');
+    expect(buyUpgrade(player, 'vector-nozzles')).toBe(player);
+    expect(buyUpgrade(buyUpgrade(player, 'thrusters'), 'vector-nozzles').upgrades['vector-nozzles']).toBe(1);
+  });
+
+  it('refunds half the last level, unless another upgrade depends on it', () => {
+    const player = buyUpgrade(buyUpgrade(createTestPlayer({ credits: 1000 }), 'thrusters'), 'thrusters');
+    const refunded = refundUpgrade(player, 'thrusters');
+    expect(refunded.credits).toBe(player.credits + 180);
+    expect(refunded.upgrades.thrusters).toBe(1);
+    expect(refunded.shipConfig.acceleration).toBe(INITIAL_SHIP_CONFIG.acceleration + 72);
+
+    const dependent = buyUpgrade({ ...player, credits: 350 }, 'vector-nozzles');
+    expect(refundUpgrade(dependent, 'thrusters')).toBe(dependent);
+  });
+
+  it('strips every level for a share of what was spent', () => {
+    const player = createTestPlayer({ credits: 0, upgrades: { ...createUpgradeLevels(), thrusters: 2, 'vector-nozzles': 1 } });
+    const stripped = respecUpgrades(player);
+    expect(stripped.credits).toBe(Math.floor((200 + 360 + 350) * 0.75));
+    expect(stripped.upgrades).toEqual(createUpgradeLevels());
+    expect(stripped.shipConfig).toEqual(INITIAL_SHIP_CONFIG);
+  });
+});
+
+describe('computeShipConfig', () => {
+  it('is the base config for a stock ship', () => {
+    expect(computeShipConfig(createUpgradeLevels(), createLoadout())).toEqual(INITIAL_SHIP_CONFIG);
+  });
+
+  it('adds module effects and slows the ship by fitted mass', () => {
+    const loadout = createLoadout();
+    loadout[1] = 'aux-fuel-tank';
+    const config = computeShipConfig({ ...createUpgradeLevels(), thrusters: 2 }, loadout);
+    expect(config.maxFuel).toBe(INITIAL_SHIP_CONFIG.maxFuel + 500);
+    expect(config.acceleration).toBeCloseTo((INITIAL_SHIP_CONFIG.acceleration + 144) * 20 / 26);
+  });
+
+  it('swaps the laser in the hardpoint', () => {
+    const loadout = createLoadout();
+    loadout[0] = 'wide-beam-laser';
+    const config = computeShipConfig(createUpgradeLevels(), loadout);
+    expect(config.beamWidth).toBe(60);
+    expect(config.miningPower).toBe(INITIAL_SHIP_CONFIG.miningPower - 30);
+    expect(config.acceleration).toBeCloseTo(INITIAL_SHIP_CONFIG.acceleration * 20 / 23);
+  });
+});
+
+describe('rescueShip', () => {
+  // 1000 units out from Retro-Rocket, the nearest station: 150 + 80 per km
+  const adrift = { x: 0, y: 1000 };
+
+  it('charges the tow and jettisons half the hold of a stranded ship', () => {
+    const player = createTestPlayer({
+      credits: 1000, position: adrift, currentFuel: 0,
+      cargo: withCargo({ [MineralType.IRON]: 10, [MineralType.GOLD]: 3 }),
+    });
+    const report = rescueShip(player, 'OUT_OF_FUEL');
+    expect(report.station.id).toBe(STATIONS[0].id);
+    expect(report.towFee).toBe(230);
+    expect(report.repairFee).toBe(0);
+    expect(report.cargoLost).toEqual({ [MineralType.IRON]: 5, [MineralType.GOLD]: 1 });
+    expect(report.charged).toBe(230);
+    expect(report.player.credits).toBe(770);
+    expect(report.player.currentFuel).toBe(150);
+    expect(report.player.position).toEqual({ x: STATIONS[0].x, y: STATIONS[0].y });
+  });
+
+  it('seizes ore most valuable first when credits run out, then writes the rest off', () => {
+    const player = createTestPlayer({
+      credits: 100, position: adrift,
+      cargo: withCargo({ [MineralType.IRON]: 10, [MineralType.GOLD]: 3 }),
+    });
+    const report = rescueShip(player, 'OUT_OF_FUEL');
+    expect(report.charged).toBe(100);
+    expect(report.cargoSeized).toEqual({ [MineralType.GOLD]: 2 });
+    expect(report.writtenOff).toBe(0);
+    expect(report.player.cargo).toEqual(withCargo({ [MineralType.IRON]: 5 }));
+
+    const broke = rescueShip(createTestPlayer({ credits: 0, position: adrift }), 'OUT_OF_FUEL');
+    expect(broke.writtenOff).toBe(230);
+  });
+
+  it('has a policy cover the fees and buy back a wreck\'s lost hold', () => {
+    const player = createTestPlayer({
+      credits: 10, position: adrift, insured: true, hull: 40,
+      cargo: withCargo({ [MineralType.IRON]: 10, [MineralType.GOLD]: 3 }),
+    });
+    const report = rescueShip(player, 'SHIP_DESTROYED');
+    expect(report.repairFee).toBe(120);
+    expect(report.cargoLostValue).toBe(400);
+    expect(report.insurancePaid).toBe(230 + 120 + 400);
+    expect(report.charged).toBe(0);
+    expect(report.player.credits).toBe(410);
+    expect(report.player.cargo).toEqual(withCargo({}));
+    expect(report.player.hull).toBe(report.player.maxHull);
+    expect(report.player.insured).toBe(false);
+  });
+});
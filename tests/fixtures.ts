@@ -0,0 +1,78 @@
+import { PlayerState, SimInput, FieldState, Asteroid, MineralType, Contract, ContractObjective } from '../types';
+import { INITIAL_SHIP_CONFIG, INITIAL_HULL, FIELD_BANDS } from '../constants';
+import { createUpgradeLevels } from '../sim/upgrades';
+import { createLoadout } from '../sim/loadout';
+
+// A stock ship parked clear of every station, with nothing in the hold
+export const createTestPlayer = (overrides: Partial<PlayerState> = {}): PlayerState => ({
+  credits: 0,
+  currentFuel: INITIAL_SHIP_CONFIG.maxFuel,
+  cargo: {
+    [MineralType.IRON]: 0,
+    [MineralType.SILICON]: 0,
+    [MineralType.GOLD]: 0,
+    [MineralType.KRONOS]: 0,
+  },
+  shipConfig: INITIAL_SHIP_CONFIG,
+  upgrades: createUpgradeLevels(),
+  loadout: createLoadout(),
+  modules: [],
+  insured: false,
+  hull: INITIAL_HULL,
+  maxHull: INITIAL_HULL,
+  position: { x: 0, y: 600 },
+  velocity: { x: 0, y: 0 },
+  rotation: -Math.PI / 2,
+  ...overrides,
+});
+
+export const idleInput = (overrides: Partial<SimInput> = {}): SimInput => ({
+  thrust: 0,
+  rotateLeft: 0,
+  rotateRight: 0,
+  brake: 0,
+  fire: false,
+  shoot: false,
+  shootSecondary: false,
+  aim: { x: 0, y: 0 },
+  ...overrides,
+});
+
+export const createTestAsteroid = (overrides: Partial<Asteroid> = {}): Asteroid => ({
+  id: 'ast-0',
+  x: 0,
+  y: 800,
+  vx: 0,
+  vy: 0,
+  radius: 50,
+  vertices: [{ x: 50, y: 0 }, { x: 0, y: 50 }, { x: -50, y: 0 }, { x: 0, y: -50 }],
+  type: MineralType.IRON,
+  health: 100,
+  maxHealth: 100,
+  ore: 10,
+  rotation: 0,
+  rotationSpeed: 0,
+  isHeating: false,
+  ...overrides,
+});
+
+// A belt holding just the given rocks, content to stay that way unless targets say otherwise
+export const createTestField = (asteroids: Asteroid[] = [], bandTargets = FIELD_BANDS.map(() => 0)): FieldState => ({
+  asteroids,
+  bandTargets,
+  respawnTimers: FIELD_BANDS.map(() => 0),
+  nextId: asteroids.length,
+  flights: 0,
+});
+
+export const createTestContract = (objective: ContractObjective, overrides: Partial<Contract> = {}): Contract => ({
+  id: 'contract-0',
+  issuerId: 'retro-rocket',
+  reward: 500,
+  penalty: 150,
+  timeLimit: 300,
+  timeLeft: 300,
+  status: 'ACTIVE',
+  objective,
+  ...overrides,
+});
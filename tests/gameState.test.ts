@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { GameState } from '../types';
+import { createGameFlow, gameFlowReducer, baseState, GameFlow, GameFlowAction } from '../utils/gameState';
+
+const run = (...actions: GameFlowAction[]): GameFlow => actions.reduce(gameFlowReducer, createGameFlow());
+const go = (to: GameState): GameFlowAction => ({ type: 'GO', to });
+
+describe('gameFlowReducer', () => {
+  it('moves between screens along allowed transitions', () => {
+    expect(run(go(GameState.PLAYING)).state).toBe(GameState.PLAYING);
+    expect(run(go(GameState.PLAYING), go(GameState.DOCKED)).state).toBe(GameState.DOCKED);
+    expect(run(go(GameState.PLAYING), go(GameState.GAMEOVER), go(GameState.START)).state).toBe(GameState.START);
+  });
+
+  it('ignores transitions the current screen does not allow', () => {
+    const docked = run(go(GameState.DOCKED));
+    expect(gameFlowReducer(docked, go(GameState.GAMEOVER))).toBe(docked);
+    expect(gameFlowReducer(docked, go(GameState.DOCKED))).toBe(docked);
+  });
+
+  it('stacks overlays and returns through them with BACK', () => {
+    const settings = run(go(GameState.PLAYING), { type: 'PAUSE' }, go(GameState.SETTINGS));
+    expect(settings).toEqual({ state: GameState.SETTINGS, stack: [GameState.PLAYING, GameState.PAUSED] });
+    expect(baseState(settings)).toBe(GameState.PLAYING);
+
+    const resumed = [{ type: 'BACK' } as const, { type: 'BACK' } as const].reduce(gameFlowReducer, settings);
+    expect(resumed).toEqual({ state: GameState.PLAYING, stack: [] });
+    expect(gameFlowReducer(resumed, { type: 'BACK' })).toBe(resumed);
+  });
+
+  it('leaves every overlay when a flight ends under the map', () => {
+    const map = run(go(GameState.PLAYING), go(GameState.MAP));
+    expect(map.stack).toEqual([GameState.PLAYING]);
+    expect(gameFlowReducer(map, go(GameState.GAMEOVER))).toEqual({ state: GameState.GAMEOVER, stack: [] });
+  });
+
+  it('only pauses a live flight', () => {
+    expect(run(go(GameState.PLAYING), go(GameState.MAP), { type: 'PAUSE' }).state).toBe(GameState.PAUSED);
+    const docked = run(go(GameState.DOCKED));
+    expect(gameFlowReducer(docked, { type: 'PAUSE' })).toBe(docked);
+    const replay = run(go(GameState.DOCKED), go(GameState.REPLAY));
+    expect(gameFlowReducer(replay, { type: 'PAUSE' })).toBe(replay);
+  });
+});
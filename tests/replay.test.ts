@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { SimInput } from '../types';
+import { SIM_DT } from '../constants';
+import { step } from '../sim/step';
+import { createWorld, generateField } from '../sim/world';
+import { startRecording, recordTick, quantizeInput, endingOf, finishRecording, runReplay, compareOutcome } from '../sim/replay';
+import { parseReplay } from '../utils/replay';
+import { createTestPlayer, createTestContract, idleInput } from './fixtures';
+
+// Wobbly, unrounded input like a real stick and mouse give
+const pilot = (tick: number): SimInput => idleInput({
+  thrust: tick % 90 < 50 ? 0.73 : 0,
+  rotateLeft: tick % 160 < 20 ? 0.514 : 0,
+  rotateRight: tick % 240 < 15 ? 1 : 0,
+  fire: tick % 50 < 30,
+  shoot: tick % 70 === 0,
+  aim: { x: Math.cos(tick / 40) * 300.4, y: 600 + Math.sin(tick / 40) * 300.6 },
+});
+
+const record = (ticks: number) => {
+  const field = { ...generateField('replay'), flights: 3 };
+  const player = createTestPlayer();
+  const contracts = [createTestContract({ kind: 'BOUNTY', target: 'saucer', kills: 0, required: 1 })];
+  const replay = startRecording('replay', player, field, contracts);
+  const world = createWorld(player, 'replay', field, contracts);
+
+  let ending = null;
+  while (!ending && world.tick < ticks) {
+    const input = pilot(world.tick);
+    recordTick(replay, input);
+    ending = endingOf(step(world, quantizeInput(input), SIM_DT));
+  }
+  finishRecording(replay, world, ending);
+  return replay;
+};
+
+describe('replays', () => {
+  it('play back to the recorded outcome after a trip through a file', () => {
+    const replay = record(1200);
+    const loaded = parseReplay(JSON.stringify(replay));
+    expect(loaded.outcome).not.toBeNull();
+    expect(compareOutcome(loaded.outcome!, runReplay(loaded))).toEqual([]);
+  });
+
+  it('drift when the inputs are tampered with', () => {
+    const replay = record(600);
+    replay.inputs[0] = [...replay.inputs[0]];
+    replay.inputs[0][1] = 1;
+    expect(compareOutcome(replay.outcome!, runReplay(replay))).not.toEqual([]);
+  });
+
+  it('reject a damaged file', () => {
+    const replay = record(60);
+    expect(() => parseReplay('{')).toThrow('not valid JSON');
+    expect(() => parseReplay(JSON.stringify({ ...replay, inputs: [[1, 2]] }))).toThrow('inputs are damaged');
+    expect(() => parseReplay(JSON.stringify({ ...replay, contracts: [{ id: 'contract-0' }] }))).toThrow('contracts are damaged');
+  });
+});
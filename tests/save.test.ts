@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { MineralType } from '../types';
+import { createSave, parseSave } from '../utils/save';
+import { createMarket } from '../sim/market';
+import { createContractBoard } from '../sim/contracts';
+import { createTestPlayer, createTestContract } from './fixtures';
+
+const saveWithActive = (active: unknown[]): string => {
+  const save = createSave('save', createTestPlayer(), null, createMarket(), 'retro-rocket', createContractBoard(), false);
+  return JSON.stringify({ ...save, contracts: { ...save.contracts, active } });
+};
+
+describe('contract objectives in saves', () => {
+  it('keeps well-formed contracts as they were', () => {
+    const active = [
+      createTestContract({ kind: 'DELIVERY', mineral: MineralType.GOLD, amount: 4 }, { id: 'contract-0' }),
+      createTestContract({ kind: 'BOUNTY', target: 'drone', kills: 1, required: 3 }, { id: 'contract-1' }),
+      createTestContract({ kind: 'SURVEY', x: 100, y: -200 }, { id: 'contract-2' }),
+      createTestContract({ kind: 'ESCORT', destinationId: 'goldwater', pod: { x: 10, y: 20, hp: 80 } }, { id: 'contract-3' }),
+    ];
+    expect(parseSave(saveWithActive(active)).contracts.active).toEqual(active);
+  });
+
+  it('drops contracts whose objective is malformed', () => {
+    const active = [
+      createTestContract({ kind: 'DELIVERY', mineral: MineralType.GOLD, amount: 4 }, { id: 'contract-0' }),
+      { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), id: 'contract-1', objective: { kind: 'DELIVERY', mineral: 'Unobtainium', amount: 4 } },
+      { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), id: 'contract-2', objective: { kind: 'DELIVERY', mineral: MineralType.IRON, amount: -1 } },
+      { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), id: 'contract-3', objective: { kind: 'SURVEY', x: 'north' } },
+      { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), id: 'contract-4', objective: { kind: 'ESCORT', destinationId: 'nowhere', pod: { x: 0, y: 0, hp: 80 } } },
+      { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), id: 'contract-5', objective: { kind: 'SMUGGLE' } },
+      { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), id: 'contract-6', status: 'LOST' },
+    ];
+    expect(parseSave(saveWithActive(active)).contracts.active.map(c => c.id)).toEqual(['contract-0']);
+  });
+
+  it('targets saucers with bounties saved before targets existed', () => {
+    const legacy = { ...createTestContract({ kind: 'SURVEY', x: 0, y: 0 }), objective: { kind: 'BOUNTY', kills: 0, required: 2 } };
+    expect(parseSave(saveWithActive([legacy])).contracts.active[0].objective).toEqual({ kind: 'BOUNTY', target: 'saucer', kills: 0, required: 2 });
+  });
+});
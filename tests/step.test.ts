@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { Alien, EnemyKind, GameEvent, World } from '../types';
+import { SIM_DT, ENEMIES } from '../constants';
+import { step } from '../sim/step';
+import { createWorld, countByBand } from '../sim/world';
+import { createTestPlayer, createTestAsteroid, createTestField, createTestContract, idleInput } from './fixtures';
+
+const runFor = (world: World, seconds: number, input = idleInput()): GameEvent[] => {
+  const events: GameEvent[] = [];
+  for (let t = 0; t < Math.round(seconds / SIM_DT); t++) events.push(...step(world, input, SIM_DT));
+  return events;
+};
+
+const createAlien = (id: string, kind: EnemyKind, x: number, y: number): Alien => ({
+  id, kind, x, y, vx: 0, vy: 0,
+  hp: 1,
+  maxHp: ENEMIES[kind].hp,
+  stolenCargo: {},
+  stolenFuel: 0,
+  state: 'CHASING',
+  drainTimer: 0,
+  warpTimer: 0,
+  evadeTimer: 0,
+  evadeSide: 1,
+  rockId: null,
+  ramTimer: 0,
+  wobbleAngle: 0,
+});
+
+describe('step', () => {
+  it('plays the same flight out identically from the same seed', () => {
+    const fly = () => {
+      const world = createWorld(createTestPlayer(), 'determinism');
+      for (let t = 0; t < 600; t++) {
+        step(world, idleInput({ thrust: t % 120 < 40 ? 1 : 0, rotateLeft: t % 200 < 30 ? 1 : 0, fire: true, aim: { x: 0, y: 900 } }), SIM_DT);
+      }
+      return { ship: world.ship, asteroids: world.asteroids, aliens: world.aliens, loot: world.loot, nextId: world.nextId };
+    };
+    expect(fly()).toEqual(fly());
+  });
+
+  it('shares a broken rock\'s ore out between its fragments without losing any', () => {
+    for (let ore = 2; ore <= 15; ore++) {
+      const world = createWorld(createTestPlayer(), `fragments-${ore}`, createTestField([createTestAsteroid({ ore, health: 1 })]));
+      const rock = world.asteroids[0];
+      const events = step(world, idleInput({ fire: true, aim: { x: rock.x, y: rock.y } }), SIM_DT);
+
+      const destroyed = events.find(e => e.type === 'ASTEROID_DESTROYED');
+      expect(destroyed?.type === 'ASTEROID_DESTROYED' && destroyed.fragments.length).toBeGreaterThanOrEqual(2);
+      const fragments = destroyed?.type === 'ASTEROID_DESTROYED' ? destroyed.fragments : [];
+      expect(fragments.reduce((sum, f) => sum + f.ore, 0)).toBe(ore);
+    }
+  });
+
+  it('regrows a depleted band after its respawn interval, away from the ship', () => {
+    // Parked out in the gold ring, well clear of anywhere an inner rock could appear
+    const world = createWorld(createTestPlayer({ position: { x: 0, y: 2600 } }), 'regrowth', createTestField([], [1, 0, 0, 0]));
+
+    runFor(world, 18);
+    expect(countByBand(world.asteroids)).toEqual([0, 0, 0, 0]);
+
+    runFor(world, 3);
+    expect(countByBand(world.asteroids)).toEqual([1, 0, 0, 0]);
+    expect(world.respawnTimers[0]).toBe(0);
+
+    // At target now, so nothing more turns up
+    runFor(world, 25);
+    expect(countByBand(world.asteroids)).toEqual([1, 0, 0, 0]);
+  });
+
+  it('only counts bounty kills of the target kind', () => {
+    const bounty = createTestContract({ kind: 'BOUNTY', target: 'drone', kills: 0, required: 2 });
+    const world = createWorld(createTestPlayer(), 'bounty', createTestField(), [bounty]);
+    world.aliens = [createAlien('alien-drone', 'drone', 300, 600), createAlien('alien-saucer', 'saucer', -300, 600)];
+    world.projectiles = world.aliens.map((alien, i) => ({
+      id: `shot-${i}`, weapon: 'cannon' as const, x: alien.x, y: alien.y, vx: 0, vy: 0, life: 1,
+    }));
+
+    const events = step(world, idleInput(), SIM_DT);
+    expect(events.filter(e => e.type === 'ALIEN_DESTROYED')).toHaveLength(2);
+
+    const objective = world.contracts[0].objective;
+    expect(objective.kind === 'BOUNTY' && objective.kills).toBe(1);
+    expect(world.contracts[0].status).toBe('ACTIVE');
+  });
+});
@@ -1,9 +1,15 @@
+import type { SpatialHash } from './sim/spatial';
+
 
 export enum GameState {
   START = 'START',
   PLAYING = 'PLAYING',
   DOCKED = 'DOCKED',
-  GAMEOVER = 'GAMEOVER'
+  GAMEOVER = 'GAMEOVER',
+  REPLAY = 'REPLAY',
+  PAUSED = 'PAUSED', // Flight frozen under the pause menu
+  SETTINGS = 'SETTINGS', // Audio and controls screen, over whatever opened it
+  MAP = 'MAP' // Sector map over a flight that keeps running
 }
 
 export enum MineralType {
@@ -22,13 +28,14 @@ export interface Asteroid {
   id: string;
   x: number;
   y: number;
-  vx: number;
+  vx: number; // Units/s
   vy: number;
   radius: number;
   vertices: Point[]; // For the jagged vector look
   type: MineralType;
   health: number;
   maxHealth: number;
+  ore: number; // Loot units inside; shared out between fragments on a split
   rotation: number;
   rotationSpeed: number;
   isHeating: boolean;
@@ -38,9 +45,9 @@ export interface Particle {
   id?: string;
   x: number;
   y: number;
-  vx: number;
+  vx: number; // Units/s
   vy: number;
-  life: number;
+  life: number; // Seconds
   maxLife: number;
   color: string;
   size: number;
@@ -51,51 +58,452 @@ export interface Loot {
   id: string;
   x: number;
   y: number;
-  vx: number;
+  vx: number; // Units/s
   vy: number;
   type: MineralType;
   amount: number;
-  life: number;
+  life: number; // Seconds until despawn
+}
+
+export type WeaponId = 'cannon' | 'torpedo';
+
+export interface WeaponDef {
+  id: WeaponId;
+  name: string;
+  trigger: 'PRIMARY' | 'SECONDARY';
+  damage: number; // Per hit, before the ship's weaponDamage multiplier
+  speed: number; // Units/s on top of the ship's own velocity
+  cooldown: number; // Seconds between shots
+  heat: number; // Added to the ship's heat per shot
+  fuelCost: number; // Per shot
+  life: number; // Seconds before the round fizzles
+  radius: number;
+  blastRadius: number; // Splash on impact; 0 hits only what it touches
+  color: string;
+}
+
+export interface Projectile {
+  id: string;
+  weapon: WeaponId;
+  x: number;
+  y: number;
+  vx: number; // Units/s
+  vy: number;
+  life: number; // Seconds left
+}
+
+export type EnemyKind = 'saucer' | 'drone' | 'brute';
+
+// SAUCER drains cargo, DRONE siphons fuel, BRUTE shoves asteroids at the ship
+export type EnemyBehaviour = 'DRAIN_CARGO' | 'SIPHON_FUEL' | 'RAM';
+
+export interface EnemyVoice {
+  wave: OscillatorType;
+  frequency: number; // Hz
+  lfoRate: number; // Warble speed, Hz
+  lfoDepth: number; // Warble width, Hz
+  volume: number;
+}
+
+// One archetype. Every enemy in the belt is an Alien driven by one of these.
+export interface EnemyDef {
+  kind: EnemyKind;
+  name: string;
+  behaviour: EnemyBehaviour;
+  hp: number;
+  radius: number; // Hull size for aim assist and avoidance
+  speed: number;
+  acceleration: number;
+  fleeSpeed: number;
+  fleeHpShare: number; // Runs below this share of max hp; 0 never runs from damage
+  drainRange: number;
+  drainInterval: number; // Seconds between thefts
+  drainAmount: number; // Cargo units or fuel per theft
+  fleeAfter: number; // Credits' worth of cargo, or units of fuel, before it runs; 0 never
+  spawn: { base: number; perKm: number; perCargoValue: number }; // Chance per second, plus per km from a station and per 1000cr carried
+  group: { min: number; max: number };
+  colorBody: string;
+  colorLights: string;
+  voice: EnemyVoice;
 }
 
 export interface Alien {
   id: string;
+  kind: EnemyKind;
   x: number;
   y: number;
-  vx: number;
+  vx: number; // Units/s
   vy: number;
   hp: number;
   maxHp: number;
   stolenCargo: { [key in MineralType]?: number };
-  state: 'CHASING' | 'DRAINING' | 'FLEEING';
-  drainTimer: number;
+  stolenFuel: number;
+  state: 'CHASING' | 'DRAINING' | 'RAMMING' | 'FLEEING';
+  drainTimer: number; // Seconds
+  warpTimer: number; // Seconds until a fleeing alien jumps out
+  evadeTimer: number; // Seconds left jinking sideways after being lasered
+  evadeSide: number; // 1 or -1
+  rockId: string | null; // Asteroid a brute is lining up
+  ramTimer: number; // Seconds until a brute can shove again
   wobbleAngle: number;
 }
 
 export interface ShipConfig {
   maxFuel: number;
-  fuelConsumptionRate: number; // Per frame idle
-  thrustConsumptionRate: number; // Per frame thrusting
+  fuelConsumptionRate: number; // Per second idle
+  thrustConsumptionRate: number; // Per second thrusting
   maxCargo: number;
-  acceleration: number;
-  maxSpeed: number;
-  rotationSpeed: number;
-  miningPower: number;
+  acceleration: number; // Units/s^2
+  maxSpeed: number; // Units/s
+  rotationSpeed: number; // Radians/s
+  miningPower: number; // Damage/s
   miningRange: number;
+  beamWidth: number; // Radius around the aim point the laser sweeps; 0 is a single rock
+  radarRange: number;
+  shieldCapacity: number; // Absorbs collision damage before the hull
+  shieldRegen: number; // Per second
+  weaponDamage: number; // Multiplier on every weapon's damage
+  heatCapacity: number; // Weapons lock out when heat reaches this
+  coolingRate: number; // Heat shed per second
 }
 
+export type GameOverReason = 'OUT_OF_FUEL' | 'SHIP_DESTROYED';
+
 export interface PlayerState {
   credits: number;
   currentFuel: number;
   cargo: { [key in MineralType]: number };
-  shipConfig: ShipConfig;
+  shipConfig: ShipConfig; // Derived from `upgrades` and `loadout`; see computeShipConfig
+  upgrades: UpgradeLevels;
+  loadout: (ModuleId | null)[]; // One entry per SHIP_SLOTS slot
+  modules: ModuleId[]; // Owned but not fitted
+  insured: boolean; // Holds a policy that covers the next rescue
+  hull: number;
+  maxHull: number;
   position: Point;
-  velocity: Point;
+  velocity: Point; // Units/s
   rotation: number; // Radians
 }
 
-export interface UpgradeCost {
-  level: number;
-  cost: number;
-  value: number; // The actual stat value
-}
\ No newline at end of file
+export type UpgradeId =
+  | 'thrusters'
+  | 'cargo-hold'
+  | 'focal-lens'
+  | 'fuel-cells'
+  | 'vector-nozzles'
+  | 'gyroscopes'
+  | 'collimator'
+  | 'recycler'
+  | 'plasma-injectors'
+  | 'gun-capacitors'
+  | 'heat-sinks'
+  | 'coolant-pumps';
+
+export type UpgradeLevels = Record<UpgradeId, number>;
+
+// One row of the upgrade tree. Each level adds `perLevel` to a ShipConfig stat.
+export interface UpgradeDef {
+  id: UpgradeId;
+  name: string;
+  description: string;
+  tier: number; // Display grouping; higher tiers sit behind prerequisites
+  stat: keyof ShipConfig;
+  perLevel: number; // Negative for consumption rates
+  maxLevel: number;
+  baseCost: number; // Price of level 1; later levels scale by UPGRADE_COST_MULTIPLIER
+  requires: { id: UpgradeId; level: number }[];
+}
+
+export type SlotKind = 'HARDPOINT' | 'INTERNAL' | 'UTILITY';
+
+export type ModuleId =
+  | 'mining-laser'
+  | 'wide-beam-laser'
+  | 'pulse-cutter'
+  | 'aux-fuel-tank'
+  | 'cargo-expander'
+  | 'shield-generator'
+  | 'scanner'
+  | 'rcs-pack';
+
+// Discrete equipment fitted into a slot. `effects` are added to the ship's
+// stats; `mass` drags acceleration down (see SHIP_MASS).
+export interface ModuleDef {
+  id: ModuleId;
+  name: string;
+  description: string;
+  slot: SlotKind;
+  price: number;
+  mass: number;
+  effects: Partial<ShipConfig>;
+}
+
+export type StationService = 'MARKET' | 'REFUEL' | 'REPAIR' | 'SHIPYARD';
+
+export interface Station {
+  id: string;
+  name: string;
+  tagline: string;
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+  services: StationService[];
+  fuelPrice: number; // Credits per unit of fuel
+  buyPrices: Partial<Record<MineralType, number>>; // Multiplier on the market price; missing = not bought here
+}
+
+// A ring of the belt, measured as distance from the station
+export interface FieldBand {
+  name: string;
+  minDist: number;
+  maxDist: number;
+  respawnInterval: number; // Seconds between reseeds while under population
+  mix: Partial<Record<MineralType, number>>; // Spawn weights, summing to 1
+}
+
+// The persistent belt: survives docking and is stored with the campaign
+export interface FieldState {
+  asteroids: Asteroid[];
+  bandTargets: number[]; // Population each FIELD_BANDS entry regrows towards
+  respawnTimers: number[]; // Seconds accumulated towards the next reseed, per band
+  nextId: number;
+  flights: number; // Sorties flown into this belt; keys each flight's gameplay rolls
+}
+
+// --- Economy ---
+
+// A temporary swing in station demand, e.g. a foundry strike
+export interface MarketEvent {
+  id: string;
+  name: string;
+  description: string;
+  demand: Partial<Record<MineralType, number>>; // Price multiplier while active
+  duration: number; // Seconds of flight time
+}
+
+export interface MarketState {
+  day: number; // Dock visits so far; also keys each visit's event roll
+  supply: Record<MineralType, number>; // 1 = base price, drops as the player sells
+  event: { id: string; remaining: number } | null; // Active MARKET_EVENTS entry
+  history: Record<MineralType, number[]>; // Price on arrival at each recent visit
+}
+
+// --- Contracts ---
+
+export type ContractObjective =
+  | { kind: 'DELIVERY'; mineral: MineralType; amount: number } // Hand over at the issuing station
+  | { kind: 'BOUNTY'; target: EnemyKind; kills: number; required: number } // Only kills of `target` count
+  | { kind: 'SURVEY'; x: number; y: number } // Fly within SURVEY_RADIUS of the waypoint
+  | { kind: 'ESCORT'; destinationId: string; pod: { x: number; y: number; hp: number } };
+
+export type ContractStatus = 'OFFERED' | 'ACTIVE' | 'COMPLETE' | 'FAILED';
+
+export interface Contract {
+  id: string;
+  issuerId: string; // Station that posted it
+  reward: number;
+  penalty: number; // Charged if it fails or is abandoned
+  timeLimit: number; // Seconds of flight time allowed
+  timeLeft: number;
+  status: ContractStatus;
+  objective: ContractObjective;
+}
+
+export interface ContractBoard {
+  offers: Contract[]; // Posted at the station the ship is docked at
+  active: Contract[];
+  log: Contract[]; // Recently settled, newest first
+  nextId: number;
+}
+
+// A towed cargo pod for an ESCORT contract; shares the contract's id
+export interface CargoPod {
+  id: string;
+  x: number;
+  y: number;
+  vx: number; // Units/s
+  vy: number;
+  hp: number;
+  towed: boolean; // Close enough to the ship to follow it
+}
+
+// --- Simulation ---
+
+// Per-tick control state fed into the simulation. Aim is in world space.
+// Analog channels run 0..1: keys give full deflection, sticks and triggers anything between
+export interface SimInput {
+  thrust: number;
+  rotateLeft: number;
+  rotateRight: number;
+  brake: number; // Retro burn to bleed off speed for docking
+  fire: boolean; // Mining laser
+  shoot: boolean; // Primary weapon
+  shootSecondary: boolean;
+  aim: Point;
+}
+
+// --- Controls ---
+
+export type InputAction = 'thrust' | 'rotateLeft' | 'rotateRight' | 'dock' | 'fire' | 'shoot' | 'shootSecondary' | 'map' | 'pause' | 'mute';
+
+export type InputBinding =
+  | { device: 'KEY'; code: string }
+  | { device: 'MOUSE'; button: number }
+  | { device: 'PAD_BUTTON'; button: number }
+  | { device: 'PAD_AXIS'; axis: number; direction: 1 | -1 };
+
+export type Bindings = Record<InputAction, InputBinding[]>;
+
+// Mixer buses; every other bus feeds master
+export type AudioBus = 'master' | 'sfx' | 'engine' | 'alerts' | 'music';
+
+export type AudioSettings = Record<AudioBus, { volume: number; muted: boolean }>; // Volume 0..1
+
+// What the score is reacting to, most urgent first when several apply
+export type MusicMood = 'ALIEN' | 'LOW_FUEL' | 'MINING' | 'CALM' | 'DOCKED';
+
+export type MusicLayer = 'drone' | 'theremin' | 'pulse' | 'tension' | 'heartbeat';
+
+export interface MusicMoodDef {
+  tempo: number; // Beats per minute
+  scale: number[]; // Semitones above the bar's root the theremin picks from
+  roots: number[]; // Semitones above MUSIC.BASE_FREQUENCY, one per bar, looped
+  density: number; // Chance the theremin moves on any eighth note
+  layers: Record<MusicLayer, number>; // Level of each layer, 0..1
+}
+
+export interface Beam {
+  target: 'ASTEROID' | 'ALIEN';
+  x: number;
+  y: number;
+  enemy?: EnemyKind; // Set when the target is an alien
+}
+
+export interface World {
+  ship: PlayerState;
+  asteroids: Asteroid[];
+  aliens: Alien[];
+  loot: Loot[];
+  projectiles: Projectile[];
+  pods: CargoPod[];
+  contracts: Contract[]; // Active contracts; progress and deadlines tick during flight
+  asteroidIndex: SpatialHash<Asteroid>; // Rebuilt every tick from `asteroids`
+  lootIndex: SpatialHash<Loot>;
+  tick: number;
+  nextId: number; // Counter for deterministic entity ids
+  bandTargets: number[];
+  respawnTimers: number[];
+  fieldCheckTimer: number; // Seconds until band populations are recounted
+  isThrusting: boolean;
+  beam: Beam | null; // Active laser this tick, if any
+  shield: number; // Charge left this flight; starts full at launch
+  heat: number; // Weapon heat; see ShipConfig.heatCapacity
+  overheated: boolean; // Locked out until heat falls to WEAPON_HEAT.RESUME_SHARE
+  weaponCooldowns: Record<WeaponId, number>; // Seconds until each weapon can fire again
+  seed: string; // Sector seed the world was generated from
+  flight: number; // Which sortie this is, see FieldState.flights
+  random: () => number; // Seeded source for every gameplay roll
+}
+
+export type GameEvent =
+  | { type: 'ASTEROID_DESTROYED'; asteroid: Asteroid; fragments: Asteroid[] }
+  | { type: 'LOOT_COLLECTED'; loot: Loot }
+  | { type: 'CARGO_FULL'; loot: Loot }
+  | { type: 'ALIEN_SPAWNED'; alien: Alien }
+  | { type: 'ALIEN_DESTROYED'; alien: Alien }
+  | { type: 'ALIEN_FLEEING'; alien: Alien }
+  | { type: 'ALIEN_ESCAPED'; alien: Alien }
+  | { type: 'CARGO_STOLEN'; alien: Alien; mineral: MineralType }
+  | { type: 'FUEL_SIPHONED'; alien: Alien; amount: number }
+  | { type: 'ASTEROID_RAMMED'; alien: Alien; asteroid: Asteroid }
+  | { type: 'WEAPON_FIRED'; weapon: WeaponId }
+  | { type: 'PROJECTILE_HIT'; projectile: Projectile }
+  | { type: 'WEAPON_OVERHEATED' }
+  | { type: 'SHIP_COLLISION'; asteroid: Asteroid; damage: number; shielded: number }
+  | { type: 'SHIP_DESTROYED' }
+  | { type: 'DOCKED'; station: Station }
+  | { type: 'CONTRACT_COMPLETED'; contract: Contract }
+  | { type: 'CONTRACT_FAILED'; contract: Contract }
+  | { type: 'OUT_OF_FUEL' };
+
+// Everything a flight hands back to the campaign when the ship docks
+export interface FlightReport {
+  player: PlayerState;
+  field: FieldState;
+  contracts: Contract[];
+  flightTime: number; // Seconds
+  station: Station;
+  replay: Replay;
+}
+
+// What a flight hands back when it ends stranded or wrecked instead of docked
+export interface LossReport {
+  reason: GameOverReason;
+  player: PlayerState;
+  field: FieldState;
+  contracts: Contract[];
+  flightTime: number; // Seconds
+  replay: Replay;
+}
+
+// The bill for hauling a lost ship back to a station
+export interface RescueReport {
+  reason: GameOverReason;
+  station: Station; // Where the ship was towed
+  distance: number; // Units towed
+  towFee: number;
+  repairFee: number; // Rebuilding a destroyed hull
+  cargoLost: Partial<Record<MineralType, number>>;
+  cargoLostValue: number;
+  cargoSeized: Partial<Record<MineralType, number>>; // Ore taken in place of credits the pilot didn't have
+  charged: number; // Credits actually paid
+  writtenOff: number; // Fees neither credits nor ore could cover
+  insurancePaid: number; // Fees waived plus lost cargo bought back by the policy
+  player: PlayerState; // Docked at `station` after the rescue
+}
+
+// --- Persistence ---
+
+// A run of identical ticks: [repeat, thrust, rotateLeft, rotateRight, brake, buttons, aimX, aimY].
+// Buttons is a bitmask of fire, shoot and shootSecondary.
+export type PackedInput = [number, number, number, number, number, number, number, number];
+
+// Where a recorded flight ended up, to check a replay still plays out the same
+export interface ReplayOutcome {
+  ticks: number;
+  ending: 'DOCKED' | GameOverReason | null; // Null when the recording was cut off mid-flight
+  position: Point;
+  fuel: number;
+  hull: number;
+  cargo: { [key in MineralType]: number };
+}
+
+// One flight: its starting state plus every tick's input. The sim is
+// deterministic, so stepping these inputs reproduces the run exactly.
+export interface Replay {
+  version: number; // See sim/replay.ts
+  recordedAt: number; // Epoch ms
+  seed: string;
+  flight: number; // Keys the gameplay rolls; a null field doesn't carry it
+  player: PlayerState;
+  field: FieldState | null;
+  contracts: Contract[];
+  inputs: PackedInput[];
+  outcome: ReplayOutcome | null;
+}
+
+export type SaveSlot = 'autosave' | 'slot-1' | 'slot-2' | 'slot-3';
+
+export interface SaveGame {
+  version: number; // Schema version, see utils/save.ts
+  savedAt: number; // Epoch ms
+  seed: string;
+  player: PlayerState;
+  field: FieldState | null; // Null regenerates the belt from the seed
+  market: MarketState;
+  stationId: string; // Last station docked at
+  contracts: ContractBoard;
+  hardcore: boolean; // One life: a lost ship ends the campaign instead of being rescued
+  inFlight: boolean; // Taken from the pause menu; loading relaunches at the saved position
+}
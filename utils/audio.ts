@@ -1,7 +1,60 @@
+import { EnemyVoice, AudioBus, AudioSettings, MusicMood, Point } from '../types';
+import { AUDIO, DEFAULT_AUDIO_SETTINGS } from '../constants';
+import { MusicEngine } from './music';
+
+const STORAGE_KEY = 'kronos-belt/audio';
+
+export const AUDIO_BUSES = Object.keys(DEFAULT_AUDIO_SETTINGS) as AudioBus[];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Saved mixer levels, with defaults for any bus the save doesn't cover
+export const loadAudioSettings = (): AudioSettings => {
+  const settings = {} as AudioSettings;
+  AUDIO_BUSES.forEach(bus => { settings[bus] = { ...DEFAULT_AUDIO_SETTINGS[bus] }; });
+  const json = localStorage.getItem(STORAGE_KEY);
+  if (!json) return settings;
+  try {
+    const data = JSON.parse(json);
+    AUDIO_BUSES.forEach(bus => {
+      if (isNumber(data?.[bus]?.volume)) settings[bus].volume = Math.min(1, Math.max(0, data[bus].volume));
+      if (typeof data?.[bus]?.muted === 'boolean') settings[bus].muted = data[bus].muted;
+    });
+  } catch (err) {
+    console.warn('Ignoring unreadable audio settings:', err);
+  }
+  return settings;
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not write audio settings:', err);
+  }
+};
+
+// Pans and attenuates one voice by where its source is relative to the ship
+interface SpatialOutput {
+  input: GainNode; // Distance attenuation; the voice connects here
+  panner: StereoPannerNode;
+}
+
+// Left/right balance and loudness for a source at `at` heard from `listener`
+const placement = (at: Point, listener: Point) => {
+  const dx = at.x - listener.x;
+  const distance = Math.sqrt(dx * dx + (at.y - listener.y) ** 2);
+  return {
+    pan: Math.max(-1, Math.min(1, dx / AUDIO.PAN_DISTANCE)),
+    gain: AUDIO.REFERENCE_DISTANCE / (AUDIO.REFERENCE_DISTANCE + Math.max(0, distance - AUDIO.REFERENCE_DISTANCE)),
+  };
+};
 
 export class SoundManager {
   ctx: AudioContext;
   masterGain: GainNode;
+  buses: Record<AudioBus, GainNode>; // 'master' is masterGain itself
+  private noiseBuffer: AudioBuffer | null = null;
   
   // Thrust
   thrustGain: GainNode | null = null;
@@ -12,9 +65,10 @@ export class SoundManager {
   laserGain: GainNode | null = null;
   laserLfo: OscillatorNode | null = null;
 
-  // Alien
-  alienHumOsc: OscillatorNode | null = null;
-  alienHumGain: GainNode | null = null;
+  // One warbling hum per enemy, keyed by entity id
+  enemyVoices: Map<string, { osc: OscillatorNode; lfo: OscillatorNode; gain: GainNode; output: SpatialOutput }> = new Map();
+
+  private music: MusicEngine | null = null;
 
   private initialized: boolean = false;
 
@@ -22,8 +76,24 @@ export class SoundManager {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     this.ctx = new AudioContextClass();
     this.masterGain = this.ctx.createGain();
-    this.masterGain.gain.value = 0.25; // Master volume
+    this.masterGain.gain.value = AUDIO.HEADROOM;
     this.masterGain.connect(this.ctx.destination);
+
+    const bus = () => {
+      const gain = this.ctx.createGain();
+      gain.connect(this.masterGain);
+      return gain;
+    };
+    this.buses = { master: this.masterGain, sfx: bus(), engine: bus(), alerts: bus(), music: bus() };
+  }
+
+  // Glides to the new levels so dragging a slider doesn't click
+  applySettings(settings: AudioSettings) {
+    AUDIO_BUSES.forEach(bus => {
+      const { volume, muted } = settings[bus];
+      const level = (muted ? 0 : volume) * (bus === 'master' ? AUDIO.HEADROOM : 1);
+      this.buses[bus].gain.setTargetAtTime(level, this.ctx.currentTime, 0.02);
+    });
   }
 
   // Call this on first user interaction to unlock audio context
@@ -34,24 +104,82 @@ export class SoundManager {
     this.initialized = true;
   }
 
-  // Create a noise buffer (White noise)
-  private createNoiseBuffer() {
-    const bufferSize = this.ctx.sampleRate * 2; // 2 seconds buffer
+  // Freezes every voice where it is until the next resume()
+  suspend() {
+    if (this.ctx.state === 'running') {
+      this.ctx.suspend();
+    }
+  }
+
+  // Closes the context for good; the manager can't be used afterwards
+  dispose() {
+    this.music?.stop();
+    this.ctx.close();
+  }
+
+  // Starts the score on first call, then shifts it to follow the mood
+  setMusicMood(mood: MusicMood) {
+    if (!this.initialized) this.resume();
+    if (!this.music) {
+      this.music = new MusicEngine(this.ctx, this.buses.music);
+      this.music.start(mood);
+    }
+    this.music.setMood(mood);
+  }
+
+  // World sounds go through one of these on their way to a bus
+  private spatialOutput(at: Point, listener: Point, bus: AudioBus = 'sfx'): SpatialOutput {
+    const { pan, gain } = placement(at, listener);
+    const input = this.ctx.createGain();
+    input.gain.value = gain;
+    const panner = this.ctx.createStereoPanner();
+    panner.pan.value = pan;
+    input.connect(panner);
+    panner.connect(this.buses[bus]);
+    return { input, panner };
+  }
+
+  // One-shot sounds get their own placement, dropped from the graph once the sound is over
+  private releaseWhenDone(source: AudioScheduledSourceNode, output: SpatialOutput) {
+    source.onended = () => {
+      output.input.disconnect();
+      output.panner.disconnect();
+    };
+  }
+
+  // Glides rather than jumps, as the source and ship move every frame
+  private moveSpatialOutput(output: SpatialOutput, at: Point, listener: Point) {
+    const { pan, gain } = placement(at, listener);
+    output.input.gain.setTargetAtTime(gain, this.ctx.currentTime, 0.05);
+    output.panner.pan.setTargetAtTime(pan, this.ctx.currentTime, 0.05);
+  }
+
+  // White noise, generated once and shared by every noise voice
+  private getNoiseBuffer() {
+    if (this.noiseBuffer) return this.noiseBuffer;
+    const bufferSize = this.ctx.sampleRate * AUDIO.NOISE_SECONDS;
     const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
     const data = buffer.getChannelData(0);
     for (let i = 0; i < bufferSize; i++) {
       data[i] = Math.random() * 2 - 1;
     }
+    this.noiseBuffer = buffer;
     return buffer;
   }
 
+  // A one-shot from a random point in the shared buffer, so repeats don't sound identical
+  private startNoise(noise: AudioBufferSourceNode, t: number, duration: number) {
+    noise.start(t, Math.random() * Math.max(0, AUDIO.NOISE_SECONDS - duration));
+    noise.stop(t + duration);
+  }
+
   startThrust() {
     if (!this.initialized) this.resume();
     if (this.thrustGain) return; // Already playing
 
     // Create brown/pinkish noise by filtering white noise
     const noise = this.ctx.createBufferSource();
-    noise.buffer = this.createNoiseBuffer();
+    noise.buffer = this.getNoiseBuffer();
     noise.loop = true;
     
     const filter = this.ctx.createBiquadFilter();
@@ -66,7 +194,7 @@ export class SoundManager {
 
     noise.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.buses.engine);
     
     noise.start();
     
@@ -117,7 +245,7 @@ export class SoundManager {
     gain.gain.setTargetAtTime(0.15, this.ctx.currentTime, 0.05); // Fast attack
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.buses.sfx);
     
     osc.start();
     lfo.start();
@@ -149,53 +277,67 @@ export class SoundManager {
     }
   }
 
-  startAlienHum() {
+  startEnemyVoice(id: string, voice: EnemyVoice, at: Point, listener: Point) {
     if (!this.initialized) this.resume();
-    if (this.alienHumGain) return;
+    if (this.enemyVoices.has(id)) return;
 
     const osc = this.ctx.createOscillator();
-    osc.type = 'sine';
-    osc.frequency.value = 400;
+    osc.type = voice.wave;
+    osc.frequency.value = voice.frequency;
 
     // LFO for tremolo/warble
     const lfo = this.ctx.createOscillator();
     lfo.type = 'triangle';
-    lfo.frequency.value = 10;
+    lfo.frequency.value = voice.lfoRate;
     const lfoGain = this.ctx.createGain();
-    lfoGain.gain.value = 50;
+    lfoGain.gain.value = voice.lfoDepth;
 
     lfo.connect(lfoGain);
     lfoGain.connect(osc.frequency);
 
     const gain = this.ctx.createGain();
     gain.gain.value = 0;
-    gain.gain.setTargetAtTime(0.1, this.ctx.currentTime, 0.5);
+    gain.gain.setTargetAtTime(voice.volume, this.ctx.currentTime, 0.5);
 
+    const output = this.spatialOutput(at, listener);
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(output.input);
     lfo.start();
     osc.start();
 
-    this.alienHumOsc = osc;
-    this.alienHumGain = gain;
+    this.enemyVoices.set(id, { osc, lfo, gain, output });
   }
 
-  stopAlienHum() {
-    if (this.alienHumGain) {
-        this.alienHumGain.gain.setTargetAtTime(0, this.ctx.currentTime, 0.5);
-        const oldOsc = this.alienHumOsc;
-        const oldGain = this.alienHumGain;
-        setTimeout(() => {
-            oldOsc?.stop();
-            oldOsc?.disconnect();
-            oldGain?.disconnect();
-        }, 500);
-        this.alienHumOsc = null;
-        this.alienHumGain = null;
-    }
+  stopEnemyVoice(id: string) {
+    const voice = this.enemyVoices.get(id);
+    if (!voice) return;
+    voice.gain.gain.setTargetAtTime(0, this.ctx.currentTime, 0.5);
+    setTimeout(() => {
+        voice.osc.stop();
+        voice.lfo.stop();
+        voice.osc.disconnect();
+        voice.lfo.disconnect();
+        voice.gain.disconnect();
+        voice.output.input.disconnect();
+        voice.output.panner.disconnect();
+    }, 500);
+    this.enemyVoices.delete(id);
   }
 
-  playAlienZap() {
+  // Moves each hum with its enemy, and silences any whose enemy is no longer in the belt
+  trackEnemyVoices(enemies: { id: string; x: number; y: number }[], listener: Point) {
+    this.enemyVoices.forEach((voice, id) => {
+      const enemy = enemies.find(e => e.id === id);
+      if (enemy) this.moveSpatialOutput(voice.output, enemy, listener);
+      else this.stopEnemyVoice(id);
+    });
+  }
+
+  stopEnemyVoices() {
+    this.enemyVoices.forEach((_, id) => this.stopEnemyVoice(id));
+  }
+
+  playAlienZap(at: Point, listener: Point) {
     if (!this.initialized) this.resume();
     const t = this.ctx.currentTime;
     const osc = this.ctx.createOscillator();
@@ -207,18 +349,113 @@ export class SoundManager {
     gain.gain.setValueAtTime(0.1, t);
     gain.gain.exponentialRampToValueAtTime(0.01, t + 0.1);
     
+    const output = this.spatialOutput(at, listener);
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(output.input);
+    this.releaseWhenDone(osc, output);
     osc.start();
     osc.stop(t + 0.1);
   }
 
-  playExplosion() {
+  // Short snappy pulse for the primary cannon
+  playCannon() {
+    if (!this.initialized) this.resume();
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(1400, t);
+    osc.frequency.exponentialRampToValueAtTime(300, t + 0.08);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.08, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.08);
+
+    osc.connect(gain);
+    gain.connect(this.buses.sfx);
+    osc.start();
+    osc.stop(t + 0.08);
+  }
+
+  // Low thump plus a hiss of exhaust as a torpedo leaves the tube
+  playTorpedo() {
+    if (!this.initialized) this.resume();
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(160, t);
+    osc.frequency.exponentialRampToValueAtTime(50, t + 0.3);
+    const oscGain = this.ctx.createGain();
+    oscGain.gain.setValueAtTime(0.4, t);
+    oscGain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
+    osc.connect(oscGain);
+    oscGain.connect(this.buses.sfx);
+    osc.start();
+    osc.stop(t + 0.3);
+
+    const noise = this.ctx.createBufferSource();
+    noise.buffer = this.getNoiseBuffer();
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 2000;
+    const noiseGain = this.ctx.createGain();
+    noiseGain.gain.setValueAtTime(0.15, t);
+    noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.4);
+    noise.connect(filter);
+    filter.connect(noiseGain);
+    noiseGain.connect(this.buses.sfx);
+    this.startNoise(noise, t, 0.4);
+  }
+
+  // Falling two-tone warning when the guns lock out
+  playOverheat() {
+    if (!this.initialized) this.resume();
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(880, t);
+    osc.frequency.setValueAtTime(440, t + 0.15);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.12, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.35);
+
+    osc.connect(gain);
+    gain.connect(this.buses.alerts);
+    osc.start();
+    osc.stop(t + 0.35);
+  }
+
+  // Rising whine as a fleeing alien's drive spools up and jumps
+  playWarp(at: Point, listener: Point) {
+    if (!this.initialized) this.resume();
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(200, t);
+    osc.frequency.exponentialRampToValueAtTime(2400, t + 0.5);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.5);
+
+    const output = this.spatialOutput(at, listener, 'alerts');
+    osc.connect(gain);
+    gain.connect(output.input);
+    this.releaseWhenDone(osc, output);
+    osc.start();
+    osc.stop(t + 0.5);
+  }
+
+  playExplosion(at: Point, listener: Point) {
     if (!this.initialized) this.resume();
     const t = this.ctx.currentTime;
     
     const noise = this.ctx.createBufferSource();
-    noise.buffer = this.createNoiseBuffer();
+    noise.buffer = this.getNoiseBuffer();
     
     const filter = this.ctx.createBiquadFilter();
     filter.type = 'lowpass';
@@ -229,12 +466,39 @@ export class SoundManager {
     gain.gain.setValueAtTime(0.8, t);
     gain.gain.exponentialRampToValueAtTime(0.01, t + 0.6);
     
+    const output = this.spatialOutput(at, listener);
     noise.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(output.input);
+    this.releaseWhenDone(noise, output);
     
-    noise.start();
-    noise.stop(t + 0.7);
+    this.startNoise(noise, t, 0.7);
+  }
+
+  // Hull scraping a rock. Intensity 0..1 scales loudness and brightness.
+  playImpact(intensity: number, at: Point, listener: Point) {
+    if (!this.initialized) this.resume();
+    const t = this.ctx.currentTime;
+
+    const noise = this.ctx.createBufferSource();
+    noise.buffer = this.getNoiseBuffer();
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(300 + intensity * 900, t);
+    filter.frequency.exponentialRampToValueAtTime(60, t + 0.25);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.2 + intensity * 0.6, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.25);
+
+    const output = this.spatialOutput(at, listener);
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(output.input);
+    this.releaseWhenDone(noise, output);
+
+    this.startNoise(noise, t, 0.3);
   }
 
   playCollect() {
@@ -251,7 +515,7 @@ export class SoundManager {
     gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
     
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.buses.sfx);
     
     osc.start();
     osc.stop(t + 0.15);
@@ -0,0 +1,56 @@
+import { GameState } from '../types';
+
+// Where each screen may go next. Overlay states are left with BACK instead.
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  [GameState.START]: [GameState.PLAYING, GameState.DOCKED, GameState.SETTINGS, GameState.REPLAY],
+  [GameState.PLAYING]: [GameState.PAUSED, GameState.MAP, GameState.DOCKED, GameState.GAMEOVER],
+  [GameState.MAP]: [GameState.PAUSED, GameState.DOCKED, GameState.GAMEOVER], // The flight carries on under the map
+  [GameState.PAUSED]: [GameState.SETTINGS, GameState.START, GameState.PLAYING, GameState.DOCKED],
+  [GameState.SETTINGS]: [],
+  [GameState.DOCKED]: [GameState.PLAYING, GameState.SETTINGS, GameState.REPLAY],
+  [GameState.GAMEOVER]: [GameState.PLAYING, GameState.DOCKED, GameState.REPLAY, GameState.START],
+  [GameState.REPLAY]: [GameState.MAP],
+};
+
+// Screens drawn over another one, which BACK returns to
+const OVERLAYS: GameState[] = [GameState.PAUSED, GameState.MAP, GameState.SETTINGS, GameState.REPLAY];
+
+// States in which the flight loop runs; the sim only advances in the ones that aren't paused
+export const LOOP_STATES: GameState[] = [GameState.PLAYING, GameState.MAP, GameState.REPLAY, GameState.PAUSED];
+
+export interface GameFlow {
+  state: GameState;
+  stack: GameState[]; // States under the current overlay, innermost last
+}
+
+export type GameFlowAction =
+  | { type: 'GO'; to: GameState }
+  | { type: 'BACK' }
+  | { type: 'PAUSE' }; // Pause if in flight, otherwise nothing
+
+// Only a live flight pauses; a replay has its own pause button
+const isFlying = (flow: GameFlow) =>
+  flow.state === GameState.PLAYING || (flow.state === GameState.MAP && flow.stack[flow.stack.length - 1] === GameState.PLAYING);
+
+export const createGameFlow = (): GameFlow => ({ state: GameState.START, stack: [] });
+
+// The screen underneath any overlays
+export const baseState = (flow: GameFlow): GameState => flow.stack[0] ?? flow.state;
+
+export const gameFlowReducer = (flow: GameFlow, action: GameFlowAction): GameFlow => {
+  switch (action.type) {
+    case 'BACK': {
+      const previous = flow.stack[flow.stack.length - 1];
+      if (previous === undefined) return flow; // Nothing to go back to
+      return { state: previous, stack: flow.stack.slice(0, -1) };
+    }
+    case 'PAUSE':
+      return isFlying(flow) ? { state: GameState.PAUSED, stack: [...flow.stack, flow.state] } : flow;
+    case 'GO':
+      if (action.to === flow.state) return flow;
+      if (!TRANSITIONS[flow.state].includes(action.to)) return flow; // Not reachable from here
+      return OVERLAYS.includes(action.to)
+        ? { state: action.to, stack: [...flow.stack, flow.state] }
+        : { state: action.to, stack: [] };
+  }
+};
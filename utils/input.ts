@@ -0,0 +1,270 @@
+import { Bindings, InputAction, InputBinding, Point } from '../types';
+import { DEFAULT_BINDINGS, INPUT } from '../constants';
+
+const STORAGE_KEY = 'kronos-belt/bindings';
+
+export const INPUT_ACTIONS = Object.keys(DEFAULT_BINDINGS) as InputAction[];
+
+// "Standard" mapping names, Xbox layout
+const PAD_BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'VIEW', 'MENU', 'L-STICK', 'R-STICK', 'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT'];
+const PAD_AXIS_LABELS = ['L-STICK LEFT', 'L-STICK RIGHT', 'L-STICK UP', 'L-STICK DOWN', 'R-STICK LEFT', 'R-STICK RIGHT', 'R-STICK UP', 'R-STICK DOWN'];
+const MOUSE_LABELS = ['LEFT CLICK', 'MIDDLE CLICK', 'RIGHT CLICK'];
+
+export const describeBinding = (binding: InputBinding): string => {
+  switch (binding.device) {
+    case 'KEY':
+      return binding.code.replace(/^(Key|Digit)/, '').replace(/^Arrow(.*)$/, '$1 ARROW').toUpperCase();
+    case 'MOUSE':
+      return MOUSE_LABELS[binding.button] ?? `MOUSE ${binding.button}`;
+    case 'PAD_BUTTON':
+      return `PAD ${PAD_BUTTON_LABELS[binding.button] ?? binding.button}`;
+    case 'PAD_AXIS':
+      return `PAD ${PAD_AXIS_LABELS[binding.axis * 2 + (binding.direction > 0 ? 1 : 0)] ?? `AXIS ${binding.axis}${binding.direction > 0 ? '+' : '-'}`}`;
+  }
+};
+
+export const sameBinding = (a: InputBinding, b: InputBinding): boolean => describeBinding(a) === describeBinding(b);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isBinding = (value: unknown): value is InputBinding => {
+  if (!isRecord(value)) return false;
+  switch (value.device) {
+    case 'KEY': return typeof value.code === 'string';
+    case 'MOUSE':
+    case 'PAD_BUTTON': return Number.isInteger(value.button);
+    case 'PAD_AXIS': return Number.isInteger(value.axis) && (value.direction === 1 || value.direction === -1);
+    default: return false;
+  }
+};
+
+export const defaultBindings = (): Bindings => {
+  const bindings = {} as Bindings;
+  INPUT_ACTIONS.forEach(action => { bindings[action] = [...DEFAULT_BINDINGS[action]]; });
+  return bindings;
+};
+
+// Saved bindings, with defaults for any action the save doesn't cover
+export const loadBindings = (): Bindings => {
+  const bindings = defaultBindings();
+  const json = localStorage.getItem(STORAGE_KEY);
+  if (!json) return bindings;
+  try {
+    const data: unknown = JSON.parse(json);
+    if (!isRecord(data)) return bindings;
+    INPUT_ACTIONS.forEach(action => {
+      const saved = data[action];
+      if (Array.isArray(saved)) bindings[action] = saved.filter(isBinding);
+    });
+  } catch (err) {
+    console.warn('Ignoring unreadable control bindings:', err);
+  }
+  return bindings;
+};
+
+export const saveBindings = (bindings: Bindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.warn('Could not write control bindings:', err);
+  }
+};
+
+export const isTouchDevice = (): boolean => 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+
+// Chrome fills the list out with nulls for empty ports
+const connectedPads = (): Gamepad[] => {
+  if (!navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => !!pad && pad.connected);
+};
+
+// Rescaled so deflection starts from zero at the edge of the deadzone
+const applyDeadzone = (value: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude < INPUT.STICK_DEADZONE) return 0;
+  return Math.sign(value) * (magnitude - INPUT.STICK_DEADZONE) / (1 - INPUT.STICK_DEADZONE);
+};
+
+// Waits for the next key, click, pad button or stick push and reports it as a
+// binding. Escape reports null. Returns a function that stops listening.
+export const captureBinding = (onCapture: (binding: InputBinding | null) => void): (() => void) => {
+  // Triggers rest at -1 on some browsers, so compare against where each axis started
+  const restingAxes = connectedPads().map(pad => [...pad.axes]);
+  let frame = 0;
+
+  const finish = (binding: InputBinding | null) => {
+    stop();
+    onCapture(binding);
+  };
+  const handleKeyDown = (e: KeyboardEvent) => {
+    e.preventDefault();
+    finish(e.code === 'Escape' ? null : { device: 'KEY', code: e.code });
+  };
+  const handleMouseDown = (e: MouseEvent) => {
+    e.preventDefault();
+    finish({ device: 'MOUSE', button: e.button });
+  };
+  const pollPads = () => {
+    const pads = connectedPads();
+    for (let p = 0; p < pads.length; p++) {
+      const button = pads[p].buttons.findIndex(b => b.pressed);
+      if (button >= 0) return finish({ device: 'PAD_BUTTON', button });
+      const axis = pads[p].axes.findIndex((value, i) => Math.abs(value - (restingAxes[p]?.[i] ?? 0)) > 0.6);
+      if (axis >= 0) return finish({ device: 'PAD_AXIS', axis, direction: pads[p].axes[axis] > (restingAxes[p]?.[axis] ?? 0) ? 1 : -1 });
+    }
+    frame = requestAnimationFrame(pollPads);
+  };
+  const stop = () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener('keydown', handleKeyDown, true);
+    window.removeEventListener('mousedown', handleMouseDown, true);
+  };
+
+  window.addEventListener('keydown', handleKeyDown, true);
+  window.addEventListener('mousedown', handleMouseDown, true);
+  frame = requestAnimationFrame(pollPads);
+  return stop;
+};
+
+// Turns raw keyboard, mouse and gamepad state into action values. Call poll()
+// once per frame before reading; gamepads are only visible by polling.
+export class InputManager {
+  bindings: Bindings;
+  pointer: Point = { x: 0, y: 0 }; // Client coordinates of the mouse or aiming finger
+  aimSource: 'POINTER' | 'PAD' = 'POINTER'; // Whichever moved last
+  aimDirection: Point = { x: 1, y: 0 }; // Last right stick direction, unit length
+  onActivity: (() => void) | null = null;
+
+  private keys: Set<string> = new Set();
+  private mouseButtons: Set<number> = new Set();
+  private pads: Gamepad[] = [];
+  private held: Set<InputAction> = new Set();
+  private virtual: Map<InputAction, number> = new Map(); // On-screen touch controls
+  private lastTouchAt = -Infinity;
+
+  constructor(bindings: Bindings) {
+    this.bindings = bindings;
+  }
+
+  attach() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('mousemove', this.handleMouseMove);
+    window.addEventListener('mousedown', this.handleMouseDown);
+    window.addEventListener('mouseup', this.handleMouseUp);
+    window.addEventListener('contextmenu', this.handleContextMenu);
+    window.addEventListener('blur', this.handleBlur);
+    window.addEventListener('touchstart', this.handleTouchStart, { passive: true });
+  }
+
+  detach() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('mousemove', this.handleMouseMove);
+    window.removeEventListener('mousedown', this.handleMouseDown);
+    window.removeEventListener('mouseup', this.handleMouseUp);
+    window.removeEventListener('contextmenu', this.handleContextMenu);
+    window.removeEventListener('blur', this.handleBlur);
+    window.removeEventListener('touchstart', this.handleTouchStart);
+    this.handleBlur();
+  }
+
+  poll() {
+    this.pads = connectedPads();
+    for (const pad of this.pads) {
+      const x = applyDeadzone(pad.axes[INPUT.AIM_STICK.X] ?? 0);
+      const y = applyDeadzone(pad.axes[INPUT.AIM_STICK.Y] ?? 0);
+      const length = Math.sqrt(x*x + y*y);
+      if (length > 0) {
+        this.aimSource = 'PAD';
+        this.aimDirection = { x: x / length, y: y / length };
+      }
+    }
+  }
+
+  // 0..1, the strongest of every binding and on-screen control for this action
+  value(action: InputAction): number {
+    return this.bindings[action].reduce((best, binding) => Math.max(best, this.bindingValue(binding)), this.virtual.get(action) ?? 0);
+  }
+
+  // Touch controls press actions directly, bypassing bindings
+  setVirtual(action: InputAction, value: number) {
+    if (value > 0) this.virtual.set(action, Math.min(1, value));
+    else this.virtual.delete(action);
+  }
+
+  aimAt(clientX: number, clientY: number) {
+    this.pointer = { x: clientX, y: clientY };
+    this.aimSource = 'POINTER';
+  }
+
+  isHeld(action: InputAction): boolean {
+    return this.value(action) >= 0.5;
+  }
+
+  // True only on the frame the action goes down. Check each toggle once per frame.
+  wasPressed(action: InputAction): boolean {
+    const down = this.isHeld(action);
+    const wasDown = this.held.has(action);
+    if (down) this.held.add(action);
+    else this.held.delete(action);
+    return down && !wasDown;
+  }
+
+  private bindingValue(binding: InputBinding): number {
+    switch (binding.device) {
+      case 'KEY':
+        return this.keys.has(binding.code) ? 1 : 0;
+      case 'MOUSE':
+        return this.mouseButtons.has(binding.button) ? 1 : 0;
+      case 'PAD_BUTTON':
+        return this.pads.reduce((best, pad) => {
+          const button = pad.buttons[binding.button];
+          return button ? Math.max(best, button.value || (button.pressed ? 1 : 0)) : best;
+        }, 0);
+      case 'PAD_AXIS':
+        return this.pads.reduce((best, pad) => Math.max(best, applyDeadzone(pad.axes[binding.axis] ?? 0) * binding.direction), 0);
+    }
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    this.keys.add(e.code);
+    this.onActivity?.();
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.keys.delete(e.code);
+  };
+
+  // Browsers follow a tap with emulated mouse events; those shouldn't fire the laser
+  private isEmulatedMouse = () => performance.now() - this.lastTouchAt < INPUT.TOUCH_MOUSE_GRACE;
+
+  private handleMouseMove = (e: MouseEvent) => {
+    if (this.isEmulatedMouse()) return;
+    this.aimAt(e.clientX, e.clientY);
+  };
+
+  private handleMouseDown = (e: MouseEvent) => {
+    if (this.isEmulatedMouse()) return;
+    this.mouseButtons.add(e.button);
+    this.onActivity?.();
+  };
+
+  private handleMouseUp = (e: MouseEvent) => {
+    this.mouseButtons.delete(e.button);
+  };
+
+  private handleContextMenu = (e: MouseEvent) => e.preventDefault();
+
+  private handleTouchStart = () => {
+    this.lastTouchAt = performance.now();
+    this.onActivity?.();
+  };
+
+  // Keys released while the window is unfocused never send keyup
+  private handleBlur = () => {
+    this.keys.clear();
+    this.mouseButtons.clear();
+    this.virtual.clear();
+  };
+}
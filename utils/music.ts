@@ -0,0 +1,205 @@
+import { MusicLayer, MusicMood } from '../types';
+import { MUSIC, MUSIC_MOODS } from '../constants';
+
+const STEPS_PER_BAR = 16; // Sixteenth notes
+const DRONE_INTERVALS = [-12, -5, 0]; // Root, fifth and octave under the bar's root
+const TENSION_INTERVALS = [0, 6]; // Root and tritone
+
+// Each layer's level at full mix, so the moods can be written as 0..1
+const LAYER_LEVELS: Record<MusicLayer, number> = {
+  drone: 0.12,
+  theremin: 0.1,
+  pulse: 0.08,
+  tension: 0.05,
+  heartbeat: 0.3,
+};
+
+const pitch = (semitones: number) => MUSIC.BASE_FREQUENCY * Math.pow(2, semitones / 12);
+
+// A step sequencer scheduled a little ahead of the audio clock. The drone,
+// theremin and tension layers are held voices that get retuned; the pulse and
+// heartbeat are fresh notes. Mood changes retune at the next step and fade the
+// layers across, so a flickering beam doesn't make the score stutter.
+export class MusicEngine {
+  private ctx: AudioContext;
+  private layers: Record<MusicLayer, GainNode>;
+  private voices: OscillatorNode[] = []; // Everything held, for stop()
+  private drone: OscillatorNode[] = [];
+  private tension: OscillatorNode[] = [];
+  private theremin: { osc: OscillatorNode; vibrato: GainNode; gain: GainNode } | null = null;
+  private mood: MusicMood = 'CALM';
+  private step = 0;
+  private nextStepTime = 0;
+  private melodyDegree = 0; // Theremin's place in the scale
+  private timer: number | null = null;
+
+  constructor(ctx: AudioContext, output: AudioNode) {
+    this.ctx = ctx;
+    const layer = () => {
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      gain.connect(output);
+      return gain;
+    };
+    this.layers = { drone: layer(), theremin: layer(), pulse: layer(), tension: layer(), heartbeat: layer() };
+  }
+
+  start(mood: MusicMood) {
+    if (this.timer !== null) return;
+    const t = this.ctx.currentTime;
+    this.mood = mood;
+    this.step = 0;
+    this.melodyDegree = 0;
+    this.nextStepTime = t + 0.05;
+    const root = this.root();
+
+    // Slightly detuned against each other
+    this.drone = DRONE_INTERVALS.map((interval, i) => {
+      const osc = this.ctx.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.value = pitch(root + interval);
+      osc.detune.value = (i - 1) * 6;
+      osc.connect(this.layers.drone);
+      return osc;
+    });
+
+    // Through a tremolo, for when something is out there
+    const tremolo = this.ctx.createGain();
+    tremolo.gain.value = 0.5;
+    const tremoloLfo = this.ctx.createOscillator();
+    tremoloLfo.frequency.value = 7;
+    const tremoloDepth = this.ctx.createGain();
+    tremoloDepth.gain.value = 0.5;
+    tremoloLfo.connect(tremoloDepth);
+    tremoloDepth.connect(tremolo.gain);
+    const tensionFilter = this.ctx.createBiquadFilter();
+    tensionFilter.type = 'lowpass';
+    tensionFilter.frequency.value = 900;
+    this.tension = TENSION_INTERVALS.map(interval => {
+      const osc = this.ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = pitch(root + interval);
+      osc.connect(tensionFilter);
+      return osc;
+    });
+    tensionFilter.connect(tremolo);
+    tremolo.connect(this.layers.tension);
+
+    // A sine with vibrato that slides between notes
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sine';
+    const vibratoLfo = this.ctx.createOscillator();
+    vibratoLfo.frequency.value = MUSIC.VIBRATO_RATE;
+    const vibrato = this.ctx.createGain();
+    vibratoLfo.connect(vibrato);
+    vibrato.connect(osc.frequency);
+    const gain = this.ctx.createGain();
+    gain.gain.value = 0;
+    osc.connect(gain);
+    gain.connect(this.layers.theremin);
+    this.theremin = { osc, vibrato, gain };
+
+    this.voices = [...this.drone, ...this.tension, tremoloLfo, osc, vibratoLfo];
+    this.voices.forEach(voice => voice.start(t));
+
+    this.fadeLayers();
+    this.timer = window.setInterval(() => this.schedule(), MUSIC.SCHEDULE_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer === null) return;
+    window.clearInterval(this.timer);
+    this.timer = null;
+    const t = this.ctx.currentTime;
+    Object.values(this.layers).forEach(layer => layer.gain.setTargetAtTime(0, t, 0.3));
+    const voices = this.voices;
+    voices.forEach(voice => voice.stop(t + 1.5));
+    this.voices = [];
+    this.drone = [];
+    this.tension = [];
+    this.theremin = null;
+  }
+
+  setMood(mood: MusicMood) {
+    if (mood === this.mood) return;
+    this.mood = mood;
+    if (this.timer !== null) this.fadeLayers();
+  }
+
+  private fadeLayers() {
+    const { layers } = MUSIC_MOODS[this.mood];
+    (Object.keys(this.layers) as MusicLayer[]).forEach(layer => {
+      this.layers[layer].gain.setTargetAtTime(layers[layer] * LAYER_LEVELS[layer], this.ctx.currentTime, MUSIC.CROSSFADE / 3);
+    });
+  }
+
+  private schedule() {
+    // A throttled background timer can fall behind; skip what was missed
+    if (this.nextStepTime < this.ctx.currentTime) this.nextStepTime = this.ctx.currentTime;
+    while (this.nextStepTime < this.ctx.currentTime + MUSIC.LOOKAHEAD) {
+      this.playStep(this.nextStepTime);
+      this.nextStepTime += 60 / MUSIC_MOODS[this.mood].tempo / 4;
+      this.step = (this.step + 1) % (STEPS_PER_BAR * MUSIC_MOODS[this.mood].roots.length);
+    }
+  }
+
+  private root() {
+    const { roots } = MUSIC_MOODS[this.mood];
+    return roots[Math.floor(this.step / STEPS_PER_BAR) % roots.length];
+  }
+
+  // Held voices follow the bar's root
+  private retune(t: number) {
+    const root = this.root();
+    DRONE_INTERVALS.forEach((interval, i) => this.drone[i]?.frequency.setTargetAtTime(pitch(root + interval), t, 0.4));
+    TENSION_INTERVALS.forEach((interval, i) => this.tension[i]?.frequency.setTargetAtTime(pitch(root + interval), t, 0.1));
+  }
+
+  private playStep(t: number) {
+    const def = MUSIC_MOODS[this.mood];
+    const inBar = this.step % STEPS_PER_BAR;
+    if (inBar === 0) this.retune(t);
+    const root = this.root();
+
+    if (inBar % 2 === 0) this.playTheremin(t, root);
+    if (def.layers.pulse > 0 && inBar % 2 === 0) {
+      // Root and octave alternating on the eighths
+      this.blip(t, pitch(root + (inBar % 4 === 0 ? 0 : 12)), 'square', this.layers.pulse, 0.12);
+    }
+    if (def.layers.heartbeat > 0 && (inBar % 8 === 0 || inBar % 8 === 2)) {
+      this.blip(t, inBar % 8 === 0 ? 55 : 49, 'sine', this.layers.heartbeat, 0.18);
+    }
+  }
+
+  // Wanders the scale a step or two at a time, with the odd leap and rest
+  private playTheremin(t: number, root: number) {
+    if (!this.theremin) return;
+    const def = MUSIC_MOODS[this.mood];
+    const { osc, vibrato, gain } = this.theremin;
+    const roll = Math.random();
+    if (roll > def.density) {
+      if (roll > 1 - def.density / 3) gain.gain.setTargetAtTime(0, t, 0.3); // Breath
+      return;
+    }
+    const leap = Math.random() < 0.2 ? 3 : 1;
+    const move = (Math.random() < 0.5 ? -1 : 1) * (1 + Math.floor(Math.random() * leap));
+    this.melodyDegree = Math.max(0, Math.min(def.scale.length - 1, this.melodyDegree + move));
+    const frequency = pitch(root + 24 + def.scale[this.melodyDegree]);
+    osc.frequency.setTargetAtTime(frequency, t, MUSIC.GLIDE);
+    vibrato.gain.setTargetAtTime(frequency * MUSIC.VIBRATO_DEPTH, t, MUSIC.GLIDE);
+    gain.gain.setTargetAtTime(1, t, 0.08);
+  }
+
+  private blip(t: number, frequency: number, type: OscillatorType, output: AudioNode, length: number) {
+    const osc = this.ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(frequency, t);
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(1, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + length);
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(t);
+    osc.stop(t + length);
+  }
+}
@@ -0,0 +1,39 @@
+export type Rng = () => number;
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I confusion
+const SEED_LENGTH = 6;
+
+// FNV-1a string hash, used to turn a sector seed into a 32-bit PRNG state
+export const hashSeed = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for game rolls
+export const createRng = (seed: string, stream: string = ''): Rng => {
+  let state = hashSeed(stream ? `${seed}:${stream}` : seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh, human-shareable sector code. Only this picks from Math.random.
+export const generateSeed = (): string => {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
+
+export const normalizeSeed = (input: string): string => {
+  return input.trim().toUpperCase().replace(/[^A-Z0-9-]/g, '');
+};
@@ -0,0 +1,75 @@
+import { MineralType, PackedInput, Replay, ReplayOutcome } from '../types';
+import { REPLAY_VERSION } from '../sim/replay';
+import { normalizePlayer, normalizeField, normalizeContractList } from './save';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPackedInput = (value: unknown): value is PackedInput => {
+  return Array.isArray(value) && value.length === 8 && value.every(isNumber);
+};
+
+const ENDINGS: ReplayOutcome['ending'][] = ['DOCKED', 'OUT_OF_FUEL', 'SHIP_DESTROYED', null];
+
+const isOutcome = (value: unknown): value is ReplayOutcome => {
+  if (!isRecord(value) || !isNumber(value.ticks) || !isNumber(value.fuel) || !isNumber(value.hull)) return false;
+  if (!ENDINGS.some(ending => ending === value.ending)) return false;
+  if (!isRecord(value.position) || !isNumber(value.position.x) || !isNumber(value.position.y)) return false;
+  const cargo = value.cargo;
+  return isRecord(cargo) && Object.values(MineralType).every(type => isNumber(cargo[type]));
+};
+
+export const parseReplay = (json: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  if (!isRecord(data) || typeof data.seed !== 'string' || !isRecord(data.player) || !Array.isArray(data.inputs)) {
+    throw new Error('Not a replay file');
+  }
+  // Replays hold raw inputs, so a sim change makes old ones drift rather than fail
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Replay is from version ${data.version}; this build plays version ${REPLAY_VERSION}`);
+  }
+  if (!isNumber(data.recordedAt) || !isNumber(data.flight) || !Array.isArray(data.contracts)
+    || (data.field !== null && !isRecord(data.field))) {
+    throw new Error('Replay header is damaged');
+  }
+  // Null while a recording was cut off mid-flight
+  const outcome = data.outcome === null ? null : isOutcome(data.outcome) ? data.outcome : undefined;
+  if (outcome === undefined) throw new Error('Replay outcome is damaged');
+  const inputs = data.inputs;
+  if (!inputs.every(isPackedInput)) throw new Error('Replay inputs are damaged');
+  // The save normalizers leave a well-formed starting state exactly as recorded
+  const field = normalizeField(data.field);
+  if (data.field !== null && !field) throw new Error('Replay belt is damaged');
+  const contracts = normalizeContractList(data.contracts);
+  if (contracts.length !== data.contracts.length) throw new Error('Replay contracts are damaged');
+  return {
+    version: data.version,
+    recordedAt: data.recordedAt,
+    seed: data.seed,
+    flight: data.flight,
+    player: normalizePlayer(data.player),
+    field,
+    contracts,
+    inputs,
+    outcome,
+  };
+};
+
+export const exportReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `kronos-replay-${replay.seed}-${new Date(replay.recordedAt).toISOString().slice(0, 19).replace(/:/g, '')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const importReplay = async (file: File): Promise<Replay> => {
+  return parseReplay(await file.text());
+};
@@ -0,0 +1,373 @@
+import { SaveGame, SaveSlot, PlayerState, ModuleId, MineralType, FieldState, Asteroid, MarketState, Contract, ContractObjective, ContractBoard, ContractStatus, EnemyKind, Point } from '../types';
+import { INITIAL_SHIP_CONFIG, INITIAL_HULL, FIELD_BANDS, MARKET, MARKET_EVENTS, STATIONS, UPGRADES, MODULES, SHIP_SLOTS, ENEMIES } from '../constants';
+import { countByBand } from '../sim/world';
+import { createMarket } from '../sim/market';
+import { createContractBoard } from '../sim/contracts';
+import { createUpgradeLevels } from '../sim/upgrades';
+import { createLoadout, computeShipConfig } from '../sim/loadout';
+
+export const SAVE_SCHEMA_VERSION = 13;
+export const SAVE_SLOTS: SaveSlot[] = ['autosave', 'slot-1', 'slot-2', 'slot-3'];
+
+const STORAGE_PREFIX = 'kronos-belt/save/';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isMineral = (value: unknown): value is MineralType => Object.values(MineralType).some(type => type === value);
+const isEnemyKind = (value: unknown): value is EnemyKind => Object.keys(ENEMIES).some(kind => kind === value);
+const isModule = (value: unknown): value is ModuleId => MODULES.some(m => m.id === value);
+const isStationId = (value: unknown): value is string => STATIONS.some(s => s.id === value);
+const isPoint = (value: unknown): value is Point => isRecord(value) && isNumber(value.x) && isNumber(value.y);
+
+const CONTRACT_STATUSES: ContractStatus[] = ['OFFERED', 'ACTIVE', 'COMPLETE', 'FAILED'];
+const isContractStatus = (value: unknown): value is ContractStatus => CONTRACT_STATUSES.some(status => status === value);
+
+// Missing or mangled sections read as empty, so lookups inside them fall through to defaults
+const record = (value: unknown): Record<string, unknown> => isRecord(value) ? value : {};
+
+type SaveData = Record<string, unknown>;
+
+// Each entry upgrades a save from version N to N + 1. When the shape of
+// ShipConfig, PlayerState or MineralType changes, bump SAVE_SCHEMA_VERSION and
+// add the step here rather than editing old data in place.
+const MIGRATIONS: Record<number, (data: SaveData) => SaveData> = {
+  // v2: ShipConfig rates moved from per-frame (60fps) to per-second
+  1: data => {
+    const player = record(data.player);
+    const config = { ...record(player.shipConfig) };
+    (['fuelConsumptionRate', 'thrustConsumptionRate', 'maxSpeed', 'rotationSpeed', 'miningPower'] as const).forEach(key => {
+      const value = config[key];
+      if (isNumber(value)) config[key] = value * 60;
+    });
+    const acceleration = config.acceleration;
+    if (isNumber(acceleration)) config.acceleration = acceleration * 60 * 60;
+    return { ...data, player: { ...player, shipConfig: config } };
+  },
+  // v3: hull integrity; older ships start undamaged
+  2: data => ({ ...data, player: { ...record(data.player), hull: INITIAL_HULL, maxHull: INITIAL_HULL } }),
+  // v4: persistent asteroid field; older saves regrow a fresh belt from their seed
+  3: data => ({ ...data, field: null }),
+  // v5: commodity market; older campaigns open at base prices
+  4: data => ({ ...data, market: null }),
+  // v6: several stations; older saves were all taken at the original one
+  5: data => ({ ...data, stationId: STATIONS[0].id }),
+  // v7: contract board; older campaigns start with nothing posted
+  6: data => ({ ...data, contracts: null }),
+  // v8: explicit upgrade levels, recovered from the four stats the old station could raise
+  7: data => {
+    const config = record(record(data.player).shipConfig);
+    const levelFrom = (stat: keyof typeof INITIAL_SHIP_CONFIG, step: number) => {
+      const value = config[stat];
+      return isNumber(value) ? Math.max(0, Math.round((value - INITIAL_SHIP_CONFIG[stat]) / step)) : 0;
+    };
+    const upgrades = {
+      'thrusters': levelFrom('acceleration', 72),
+      'cargo-hold': levelFrom('maxCargo', 10),
+      'focal-lens': levelFrom('miningPower', 30),
+      'fuel-cells': levelFrom('maxFuel', 200),
+    };
+    return { ...data, player: { ...record(data.player), upgrades } };
+  },
+  // v9: module loadout; older ships fly the stock laser and own nothing else
+  8: data => ({ ...data, player: { ...record(data.player), loadout: createLoadout(), modules: [] } }),
+  // v10: weapon upgrades; older ships have none installed
+  9: data => {
+    const player = record(data.player);
+    const upgrades = { ...record(player.upgrades), 'gun-capacitors': 0, 'heat-sinks': 0, 'coolant-pumps': 0 };
+    return { ...data, player: { ...player, upgrades } };
+  },
+  // v11: rescue insurance and hardcore mode; older campaigns are uninsured and forgiving
+  10: data => ({ ...data, hardcore: false, player: { ...record(data.player), insured: false } }),
+  // v12: saves from the pause menu; every older save was taken docked
+  11: data => ({ ...data, inFlight: false }),
+  // v13: per-flight roll counter on the belt; older belts have flown none
+  12: data => ({ ...data, field: isRecord(data.field) ? { ...data.field, flights: 0 } : null }),
+};
+
+// Fills anything missing with defaults so a migrated save always matches the current types
+export const normalizePlayer = (raw: unknown): PlayerState => {
+  if (!isRecord(raw)) throw new Error('Save has no player data');
+
+  const storedCargo = record(raw.cargo);
+  const cargo = {} as PlayerState['cargo'];
+  Object.values(MineralType).forEach(type => {
+    const amount = storedCargo[type];
+    cargo[type] = isNumber(amount) ? amount : 0;
+  });
+
+  // Levels are the source of truth; the stored config is rebuilt from them
+  const storedUpgrades = record(raw.upgrades);
+  const upgrades = createUpgradeLevels();
+  UPGRADES.forEach(def => {
+    const level = storedUpgrades[def.id];
+    if (isNumber(level)) upgrades[def.id] = Math.max(0, Math.min(def.maxLevel, Math.floor(level)));
+  });
+
+  // Modules that don't fit their slot (or no longer exist) are dropped back into
+  // the inventory; an empty hardpoint gets the stock laser
+  const modules: ModuleId[] = Array.isArray(raw.modules) ? raw.modules.filter(isModule) : [];
+  const storedLoadout: unknown[] = Array.isArray(raw.loadout) ? raw.loadout : [];
+  const loadout = createLoadout();
+  SHIP_SLOTS.forEach((kind, slot) => {
+    const id = storedLoadout[slot];
+    if (!isModule(id)) return;
+    if (MODULES.find(m => m.id === id)!.slot === kind) loadout[slot] = id;
+    else modules.push(id);
+  });
+  const shipConfig = computeShipConfig(upgrades, loadout);
+
+  const maxHull = isNumber(raw.maxHull) ? raw.maxHull : INITIAL_HULL;
+
+  return {
+    credits: isNumber(raw.credits) ? raw.credits : 0,
+    currentFuel: isNumber(raw.currentFuel) ? raw.currentFuel : shipConfig.maxFuel,
+    cargo,
+    shipConfig,
+    upgrades,
+    loadout,
+    modules,
+    insured: raw.insured === true,
+    hull: isNumber(raw.hull) ? Math.min(raw.hull, maxHull) : maxHull,
+    maxHull,
+    position: isPoint(raw.position) ? { x: raw.position.x, y: raw.position.y } : { x: 0, y: 0 },
+    velocity: isPoint(raw.velocity) ? { x: raw.velocity.x, y: raw.velocity.y } : { x: 0, y: 0 },
+    rotation: isNumber(raw.rotation) ? raw.rotation : -Math.PI / 2,
+  };
+};
+
+const normalizeAsteroid = (raw: unknown): Asteroid | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !isNumber(raw.x) || !isNumber(raw.y) || !isNumber(raw.radius)) return null;
+  if (!Array.isArray(raw.vertices) || !raw.vertices.every(isPoint) || !isMineral(raw.type)) return null;
+  return {
+    id: raw.id,
+    x: raw.x,
+    y: raw.y,
+    vx: isNumber(raw.vx) ? raw.vx : 0,
+    vy: isNumber(raw.vy) ? raw.vy : 0,
+    radius: raw.radius,
+    vertices: raw.vertices.map(v => ({ x: v.x, y: v.y })),
+    type: raw.type,
+    health: isNumber(raw.health) ? raw.health : 100,
+    maxHealth: isNumber(raw.maxHealth) ? raw.maxHealth : 100,
+    ore: isNumber(raw.ore) ? raw.ore : Math.floor(raw.radius / 5),
+    rotation: isNumber(raw.rotation) ? raw.rotation : 0,
+    rotationSpeed: isNumber(raw.rotationSpeed) ? raw.rotationSpeed : 0,
+    isHeating: false,
+  };
+};
+
+// Per-band arrays are re-fitted to FIELD_BANDS in case the bands were retuned
+export const normalizeField = (raw: unknown): FieldState | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.asteroids)) return null;
+  const asteroids = raw.asteroids.map(normalizeAsteroid).filter((a): a is Asteroid => a !== null);
+  const fitted = (values: unknown, fallback: number[]) =>
+    Array.isArray(values) && values.length === FIELD_BANDS.length && values.every(isNumber) ? values : fallback;
+
+  return {
+    asteroids,
+    bandTargets: fitted(raw.bandTargets, countByBand(asteroids)),
+    respawnTimers: fitted(raw.respawnTimers, FIELD_BANDS.map(() => 0)),
+    // Without a counter, continue past the highest numbered id so new rocks can't collide
+    nextId: isNumber(raw.nextId)
+      ? raw.nextId
+      : asteroids.reduce((max, a) => Math.max(max, Number(a.id.split('-').pop()) + 1 || 0), 0),
+    flights: isNumber(raw.flights) ? Math.max(0, Math.floor(raw.flights)) : 0,
+  };
+};
+
+const normalizeMarket = (raw: unknown): MarketState => {
+  const market = createMarket();
+  if (!isRecord(raw)) return market;
+
+  const supply = record(raw.supply);
+  const history = record(raw.history);
+  Object.values(MineralType).forEach(type => {
+    const level = supply[type];
+    if (isNumber(level)) market.supply[type] = Math.min(1, Math.max(MARKET.MIN_SUPPLY, level));
+    const prices = history[type];
+    if (Array.isArray(prices) && prices.length > 0 && prices.every(isNumber)) {
+      market.history[type] = prices.slice(-MARKET.HISTORY_LENGTH);
+    }
+  });
+  if (isNumber(raw.day)) market.day = raw.day;
+  // Events removed from MARKET_EVENTS are simply dropped
+  const event = record(raw.event);
+  const id = event.id;
+  if (typeof id === 'string' && MARKET_EVENTS.some(e => e.id === id) && isNumber(event.remaining)) {
+    market.event = { id, remaining: event.remaining };
+  }
+  return market;
+};
+
+// Rebuilt field by field, so a hand-edited objective can't reach the sim half-formed
+const normalizeObjective = (raw: unknown): ContractObjective | null => {
+  if (!isRecord(raw)) return null;
+  switch (raw.kind) {
+    case 'DELIVERY':
+      if (!isMineral(raw.mineral) || !isNumber(raw.amount) || raw.amount <= 0) return null;
+      return { kind: 'DELIVERY', mineral: raw.mineral, amount: raw.amount };
+    case 'BOUNTY':
+      if (!isNumber(raw.kills) || !isNumber(raw.required) || raw.required <= 0) return null;
+      // Bounties from before targets were all posted against saucers
+      return { kind: 'BOUNTY', target: isEnemyKind(raw.target) ? raw.target : 'saucer', kills: raw.kills, required: raw.required };
+    case 'SURVEY':
+      if (!isNumber(raw.x) || !isNumber(raw.y)) return null;
+      return { kind: 'SURVEY', x: raw.x, y: raw.y };
+    case 'ESCORT': {
+      const pod = record(raw.pod);
+      if (!isStationId(raw.destinationId) || !isNumber(pod.x) || !isNumber(pod.y) || !isNumber(pod.hp)) return null;
+      return { kind: 'ESCORT', destinationId: raw.destinationId, pod: { x: pod.x, y: pod.y, hp: pod.hp } };
+    }
+    default:
+      return null;
+  }
+};
+
+const normalizeContract = (raw: unknown): Contract | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.issuerId !== 'string') return null;
+  const objective = normalizeObjective(raw.objective);
+  if (!objective) return null;
+  const { reward, penalty, timeLimit, timeLeft, status } = raw;
+  if (!isNumber(reward) || !isNumber(penalty) || !isNumber(timeLimit) || !isNumber(timeLeft)) return null;
+  if (!isContractStatus(status)) return null;
+  return {
+    id: raw.id,
+    issuerId: raw.issuerId,
+    reward,
+    penalty,
+    timeLimit,
+    timeLeft,
+    status,
+    objective,
+  };
+};
+
+export const normalizeContractList = (values: unknown): Contract[] => Array.isArray(values)
+  ? values.map(normalizeContract).filter((c): c is Contract => c !== null)
+  : [];
+
+const normalizeContracts = (raw: unknown): ContractBoard => {
+  const board = createContractBoard();
+  if (!isRecord(raw)) return board;
+  const offers = normalizeContractList(raw.offers);
+  const active = normalizeContractList(raw.active);
+  const log = normalizeContractList(raw.log);
+  return {
+    offers,
+    active,
+    log,
+    // Same fallback as the field: continue past the highest numbered id
+    nextId: isNumber(raw.nextId)
+      ? raw.nextId
+      : [...offers, ...active, ...log].reduce((max, c) => Math.max(max, Number(c.id.split('-').pop()) + 1 || 0), 0),
+  };
+};
+
+export const createSave = (
+  seed: string,
+  player: PlayerState,
+  field: FieldState | null,
+  market: MarketState,
+  stationId: string,
+  contracts: ContractBoard,
+  hardcore: boolean,
+  inFlight = false
+): SaveGame => ({
+  version: SAVE_SCHEMA_VERSION,
+  savedAt: Date.now(),
+  seed,
+  player,
+  field,
+  market,
+  stationId,
+  contracts,
+  hardcore,
+  inFlight,
+});
+
+// Accepts any older schema version and returns a current SaveGame, or throws
+export const migrateSave = (data: unknown): SaveGame => {
+  if (!isRecord(data) || !isNumber(data.version)) {
+    throw new Error('Not a Kronos Belt save file');
+  }
+  if (data.version > SAVE_SCHEMA_VERSION) {
+    throw new Error(`Save is from a newer version (v${data.version})`);
+  }
+
+  let migrated: SaveData = data;
+  for (let v = data.version; v < SAVE_SCHEMA_VERSION; v++) {
+    const migration = MIGRATIONS[v];
+    if (!migration) throw new Error(`No migration from save v${v}`);
+    migrated = { ...migration(migrated), version: v + 1 };
+  }
+
+  return {
+    version: SAVE_SCHEMA_VERSION,
+    savedAt: isNumber(migrated.savedAt) ? migrated.savedAt : Date.now(),
+    seed: typeof migrated.seed === 'string' ? migrated.seed : '',
+    player: normalizePlayer(migrated.player),
+    field: normalizeField(migrated.field),
+    market: normalizeMarket(migrated.market),
+    stationId: isStationId(migrated.stationId) ? migrated.stationId : STATIONS[0].id,
+    contracts: normalizeContracts(migrated.contracts),
+    hardcore: migrated.hardcore === true,
+    inFlight: migrated.inFlight === true,
+  };
+};
+
+export const parseSave = (json: string): SaveGame => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Save file is not valid JSON');
+  }
+  return migrateSave(data);
+};
+
+// --- localStorage slots ---
+
+export const writeSave = (slot: SaveSlot, save: SaveGame) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + slot, JSON.stringify(save));
+  } catch (err) {
+    console.warn(`Could not write save slot ${slot}:`, err);
+  }
+};
+
+export const readSave = (slot: SaveSlot): SaveGame | null => {
+  const json = localStorage.getItem(STORAGE_PREFIX + slot);
+  if (!json) return null;
+  try {
+    return parseSave(json);
+  } catch (err) {
+    console.warn(`Ignoring unreadable save slot ${slot}:`, err);
+    return null;
+  }
+};
+
+export const deleteSave = (slot: SaveSlot) => {
+  localStorage.removeItem(STORAGE_PREFIX + slot);
+};
+
+export const listSaves = (): Record<SaveSlot, SaveGame | null> => {
+  const saves = {} as Record<SaveSlot, SaveGame | null>;
+  SAVE_SLOTS.forEach(slot => { saves[slot] = readSave(slot); });
+  return saves;
+};
+
+// --- File export / import ---
+
+export const exportSave = (save: SaveGame) => {
+  const blob = new Blob([JSON.stringify(save, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `kronos-${save.seed || 'save'}-${new Date(save.savedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const importSave = async (file: File): Promise<SaveGame> => {
+  return parseSave(await file.text());
+};